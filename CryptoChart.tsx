@@ -33,21 +33,22 @@ interface CryptoChartProps {
   symbol?: string;           // Символ монеты (по умолчанию BTCUSDT)
   timeframe?: string;        // Таймфрейм (1m, 5m, 15m, 30m, 1h, 4h, 1d)
   opacity?: number;          // Прозрачность графика (0-100)
-  updateInterval?: number;   // Интервал обновления в мс (по умолчанию 1000)
+  serverUrl?: string;        // Сервер с /api/klines и /ws ('' — тот же origin)
   candleLimit?: number;      // Количество свечей (по умолчанию 60)
   showLiquidations?: boolean; // Показывать ликвидации (по умолчанию false)
   minLiquidationValue?: number; // Минимальная сумма ликвидации в $ (по умолчанию 1)
 }
 
 /**
- * Компонент графика криптовалют с данными из Binance API
+ * Компонент графика криптовалют со свечами Binance через наш сервер
+ * (история — GET /api/klines, обновления — сообщения kline по /ws)
  * Отображает японские свечи с умным форматированием цены и живым индикатором
  */
 export function CryptoChart({
   symbol = 'BTCUSDT',
   timeframe = '15m',
   opacity = 100,
-  updateInterval = 1000,
+  serverUrl = '',
   candleLimit = 60,
   showLiquidations = false,
   minLiquidationValue = 1
@@ -165,55 +166,37 @@ export function CryptoChart({
     setLiquidations([]);
   }, [symbol]);
 
-  // Fetch данных с Binance API
+  // История свечей с сервера, дальше — обновления по /ws (без опроса)
   useEffect(() => {
+    let cancelled = false;
+    let ws: WebSocket | null = null;
+
     const fetchCandleData = async () => {
       try {
-        let data: any[] = [];
-
-        // 1️⃣ Основной запрос — Futures API
-        let response = await fetch(
-          `https://fapi.binance.com/fapi/v1/klines?symbol=${symbol}&interval=${timeframe}&limit=${candleLimit}`
+        // 1️⃣ Сервер сам выбирает фьючерсы или спот Binance и кэширует свечи
+        const response = await fetch(
+          `${serverUrl}/api/klines/${encodeURIComponent(symbol)}?interval=${timeframe}&limit=${candleLimit}`
         );
-        data = await response.json();
-
-        // 2️⃣ Если ошибка — fallback на Spot API
-        if (!Array.isArray(data) || data.length === 0 || (data as any).code) {
-          console.warn(`⚠️ Futures data empty/error for ${symbol}, trying Spot API...`);
-          response = await fetch(
-            `https://api.binance.com/api/v3/klines?symbol=${symbol}&interval=${timeframe}&limit=${candleLimit}`
-          );
-          data = await response.json();
-        }
+        const body = await response.json();
 
-        // 3️⃣ Проверка на валидность данных
-        if (!Array.isArray(data) || data.length === 0 || (data as any).code) {
-          console.error(`❌ No data available for ${symbol}`);
+        // 2️⃣ Проверка на валидность данных
+        if (!response.ok || !Array.isArray(body.data) || body.data.length === 0) {
+          console.error(`❌ No data available for ${symbol}:`, body.error);
           return;
         }
 
-        // 4️⃣ Конвертация и фильтрация
-        const validCandles = data
-          .map((kline: any[]) => ({
-            timestamp: kline[0],
-            open: parseFloat(kline[1]),
-            high: parseFloat(kline[2]),
-            low: parseFloat(kline[3]),
-            close: parseFloat(kline[4]),
-            volume: parseFloat(kline[5]),
-          }))
-          .filter(c => {
-            const isEmpty = c.open === c.close && c.high === c.low && c.volume === 0;
-            const isValid = !isNaN(c.open) && !isNaN(c.high) && !isNaN(c.low) && !isNaN(c.close);
-            return !isEmpty && isValid;
-          });
-
-        // 5️⃣ Минимальная проверка
+        // 3️⃣ Фильтрация пустых свечей
+        const validCandles = (body.data as Candle[]).filter(
+          c => !(c.open === c.close && c.high === c.low && c.volume === 0)
+        );
+
+        // 4️⃣ Минимальная проверка
         if (validCandles.length < 5) {
           console.warn(`⚠️ Too few valid candles for ${symbol}: ${validCandles.length}`);
           return;
         }
 
+        if (cancelled) return;
         setCandles(validCandles);
         setLastUpdateTime(Date.now());
         console.log(`✅ ${symbol}: ${validCandles.length} candles (${timeframe})`);
@@ -222,10 +205,50 @@ export function CryptoChart({
       }
     };
 
+    // 5️⃣ Живая свеча: заменяем текущую или сдвигаем график на новую
+    const connectToKlines = () => {
+      const base = serverUrl || window.location.origin;
+      ws = new WebSocket(`${base.replace(/^http/, 'ws')}/ws`);
+
+      ws.onopen = () => {
+        // Ликвидации этому графику не нужны — только свечи
+        ws?.send(JSON.stringify({ type: 'unsubscribe' }));
+        ws?.send(JSON.stringify({ type: 'watchKlines', symbol, interval: timeframe }));
+      };
+
+      ws.onmessage = (event) => {
+        const message = JSON.parse(event.data);
+        if (message.type !== 'kline' || message.data.symbol !== symbol || message.data.interval !== timeframe) return;
+        const kline: Candle = message.data.kline;
+
+        setCandles(prev => {
+          if (prev.length === 0) return prev;
+          const last = prev[prev.length - 1];
+          if (kline.timestamp < last.timestamp) return prev;
+          if (kline.timestamp === last.timestamp) return [...prev.slice(0, -1), kline];
+          return [...prev.slice(1), kline];
+        });
+        setLastUpdateTime(Date.now());
+      };
+
+      // После разрыва перезагружаем историю — за время разрыва могли закрыться свечи
+      ws.onclose = () => {
+        if (cancelled) return;
+        setTimeout(() => {
+          if (cancelled) return;
+          fetchCandleData();
+          connectToKlines();
+        }, 5000);
+      };
+    };
+
     fetchCandleData();
-    const interval = setInterval(fetchCandleData, updateInterval);
-    return () => clearInterval(interval);
-  }, [symbol, timeframe, candleLimit, updateInterval]);
+    connectToKlines();
+    return () => {
+      cancelled = true;
+      ws?.close();
+    };
+  }, [symbol, timeframe, candleLimit, serverUrl]);
 
   // Отрисовка графика
   const drawChart = useCallback((ctx: CanvasRenderingContext2D, width: number, height: number) => {
@@ -547,7 +570,6 @@ export function CryptoChartStandalone() {
   const [timeframe, setTimeframe] = React.useState<string>('15m');
   const [opacity, setOpacity] = React.useState<number>(100);
   const [candleLimit, setCandleLimit] = React.useState<number>(60);
-  const [updateInterval, setUpdateInterval] = React.useState<number>(10000);
   const [showLiquidations, setShowLiquidations] = React.useState<boolean>(false);
   const [minLiquidationValue, setMinLiquidationValue] = React.useState<number>(1000);
 
@@ -643,31 +665,6 @@ export function CryptoChartStandalone() {
           </select>
         </div>
 
-        {/* Update interval */}
-        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
-          <label style={{ fontSize: 12, opacity: 0.8 }}>Update</label>
-          <select
-            value={updateInterval}
-            onChange={(e) => setUpdateInterval(Number(e.target.value))}
-            style={{
-              background: '#141414',
-              border: '1px solid #222',
-              color: '#eaeaea',
-              padding: '6px 8px',
-              borderRadius: 6,
-            }}
-          >
-            {[
-              { label: '5s', value: 5000 },
-              { label: '10s', value: 10000 },
-              { label: '15s', value: 15000 },
-              { label: '30s', value: 30000 },
-            ].map((opt) => (
-              <option key={opt.value} value={opt.value}>{opt.label}</option>
-            ))}
-          </select>
-        </div>
-
         {/* Liquidations toggle */}
         <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginLeft: 10 }}>
           <label style={{ fontSize: 12, opacity: 0.8 }}>Liquidations</label>
@@ -719,7 +716,6 @@ export function CryptoChartStandalone() {
           timeframe={timeframe}
           opacity={opacity}
           candleLimit={candleLimit}
-          updateInterval={updateInterval}
           showLiquidations={showLiquidations}
           minLiquidationValue={minLiquidationValue}
         />
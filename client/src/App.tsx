@@ -4,12 +4,14 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import LiquidationDashboard from "@/pages/LiquidationDashboard";
+import AuthPage from "@/pages/AuthPage";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={LiquidationDashboard}/>
+      <Route path="/auth" component={AuthPage}/>
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,34 @@
+import { Link } from 'wouter';
+import { LogOut, User } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+
+// 👤 Вход в углу экрана: гостю — ссылка на /auth, вошедшему — имя и выход
+export function AccountButton() {
+  const { user, isLoading, logout } = useAuth();
+
+  if (isLoading) return null;
+
+  if (!user) {
+    return (
+      <Link
+        href="/auth"
+        className="bg-cyber-gray hover:bg-gray-700 text-white p-3 rounded-full shadow-lg transition-all duration-200 hover:scale-110"
+        title="Log in"
+      >
+        <User className="w-6 h-6" />
+      </Link>
+    );
+  }
+
+  return (
+    <button
+      onClick={() => logout.mutate()}
+      disabled={logout.isPending}
+      className="group relative bg-cyber-gray hover:bg-gray-700 text-white p-3 rounded-full shadow-lg transition-all duration-200 hover:scale-110"
+      title={`Log out ${user.username}`}
+    >
+      <User className="w-6 h-6 text-accent-blue group-hover:hidden" />
+      <LogOut className="w-6 h-6 hidden group-hover:block" />
+    </button>
+  );
+}
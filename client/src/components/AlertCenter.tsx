@@ -0,0 +1,218 @@
+import React from 'react';
+import { Bell, BellRing, Trash2 } from 'lucide-react';
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerHeader,
+  DrawerTitle,
+  DrawerTrigger,
+} from '@/components/ui/drawer';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ALERT_SOUNDS, AlertSound, playAlertSound } from '../utils/AlertSounds';
+import { AlertHistoryEntry, ClientAlertSettings } from '../hooks/useLiquidationAlerts';
+
+interface AlertCenterProps {
+  settings: ClientAlertSettings;
+  onSettingsChange: (patch: Partial<ClientAlertSettings>) => void;
+  history: AlertHistoryEntry[];
+  unreadCount: number;
+  onOpen: () => void;
+  onClearHistory: () => void;
+  notificationPermission: NotificationPermission | 'unsupported';
+  onRequestNotificationPermission: () => void;
+}
+
+const WHALE_PRESETS = [250000, 500000, 1000000, 5000000];
+
+function formatCurrency(amount: number) {
+  if (amount >= 1000000) return `$${(amount / 1000000).toFixed(amount % 1000000 === 0 ? 0 : 1)}M`;
+  return `$${(amount / 1000).toFixed(0)}K`;
+}
+
+function SoundSelect({ value, onChange }: { value: AlertSound; onChange: (sound: AlertSound) => void }) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => {
+        const sound = e.target.value as AlertSound;
+        onChange(sound);
+        playAlertSound(sound); // Предпрослушивание
+      }}
+      className="bg-cyber-border text-gray-300 text-xs rounded px-2 py-1"
+    >
+      {ALERT_SOUNDS.map(sound => (
+        <option key={sound} value={sound}>{sound === 'none' ? '🔇 none' : `🔊 ${sound}`}</option>
+      ))}
+    </select>
+  );
+}
+
+// 🔔 Кнопка с числом непрочитанных и выдвижная панель: история алертов и их настройки
+export function AlertCenter({
+  settings,
+  onSettingsChange,
+  history,
+  unreadCount,
+  onOpen,
+  onClearHistory,
+  notificationPermission,
+  onRequestNotificationPermission,
+}: AlertCenterProps) {
+  return (
+    <Drawer onOpenChange={(open) => open && onOpen()}>
+      <DrawerTrigger asChild>
+        <button
+          className="relative bg-cyber-gray hover:bg-gray-700 text-white p-3 rounded-full shadow-lg transition-all duration-200 hover:scale-110"
+          title="Alerts"
+        >
+          {unreadCount > 0 ? <BellRing className="w-6 h-6 text-accent-yellow" /> : <Bell className="w-6 h-6" />}
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[20px] h-5 px-1 rounded-full bg-long-red text-[11px] font-bold flex items-center justify-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </button>
+      </DrawerTrigger>
+      <DrawerContent className="bg-cyber-gray border-cyber-border text-white max-h-[85vh]">
+        <div className="mx-auto w-full max-w-3xl flex flex-col min-h-0">
+          <DrawerHeader>
+            <DrawerTitle className="text-accent-blue">Alert Center</DrawerTitle>
+            <DrawerDescription className="text-gray-400">
+              Whale liquidations and sudden bursts from the live feed
+            </DrawerDescription>
+          </DrawerHeader>
+
+          {/* Настройки */}
+          <div className="px-4 grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+            <div className="bg-cyber-dark/50 rounded-lg border border-cyber-border p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="font-semibold text-accent-yellow">🐋 Whale</span>
+                <Switch
+                  checked={settings.whale.enabled}
+                  onCheckedChange={(enabled) => onSettingsChange({ whale: { ...settings.whale, enabled } })}
+                />
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {WHALE_PRESETS.map(minValue => (
+                  <button
+                    key={minValue}
+                    onClick={() => onSettingsChange({ whale: { ...settings.whale, minValue } })}
+                    className={`px-2 py-0.5 rounded text-xs transition-colors ${
+                      settings.whale.minValue === minValue
+                        ? 'bg-accent-blue text-white'
+                        : 'bg-cyber-border text-gray-400 hover:bg-gray-700'
+                    }`}
+                  >
+                    {formatCurrency(minValue)}+
+                  </button>
+                ))}
+              </div>
+              <SoundSelect
+                value={settings.whale.sound}
+                onChange={(sound) => onSettingsChange({ whale: { ...settings.whale, sound } })}
+              />
+            </div>
+
+            <div className="bg-cyber-dark/50 rounded-lg border border-cyber-border p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="font-semibold text-accent-yellow">⚡ Burst</span>
+                <Switch
+                  checked={settings.burst.enabled}
+                  onCheckedChange={(enabled) => onSettingsChange({ burst: { ...settings.burst, enabled } })}
+                />
+              </div>
+              <div className="flex items-center gap-1 text-xs text-gray-400">
+                <input
+                  type="number"
+                  min={2}
+                  value={settings.burst.minCount}
+                  onChange={(e) => onSettingsChange({ burst: { ...settings.burst, minCount: Math.max(2, parseInt(e.target.value) || 2) } })}
+                  className="w-14 bg-cyber-border text-white rounded px-1 py-0.5"
+                />
+                <span>liqs on a coin in</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={settings.burst.windowSeconds}
+                  onChange={(e) => onSettingsChange({ burst: { ...settings.burst, windowSeconds: Math.max(1, parseInt(e.target.value) || 1) } })}
+                  className="w-14 bg-cyber-border text-white rounded px-1 py-0.5"
+                />
+                <span>s</span>
+              </div>
+              <SoundSelect
+                value={settings.burst.sound}
+                onChange={(sound) => onSettingsChange({ burst: { ...settings.burst, sound } })}
+              />
+            </div>
+
+            <div className="bg-cyber-dark/50 rounded-lg border border-cyber-border p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="font-semibold text-accent-yellow">🖥️ Notifications</span>
+                <Switch
+                  checked={settings.notifications && notificationPermission === 'granted'}
+                  disabled={notificationPermission !== 'granted'}
+                  onCheckedChange={(notifications) => onSettingsChange({ notifications })}
+                />
+              </div>
+              {notificationPermission === 'unsupported' ? (
+                <p className="text-xs text-gray-500">Not supported by this browser</p>
+              ) : notificationPermission === 'granted' ? (
+                <p className="text-xs text-gray-400">Shown while the tab is in the background</p>
+              ) : notificationPermission === 'denied' ? (
+                <p className="text-xs text-gray-500">Blocked in browser settings</p>
+              ) : (
+                <button
+                  onClick={onRequestNotificationPermission}
+                  className="px-2 py-1 rounded text-xs bg-accent-blue hover:bg-blue-600 text-white transition-colors"
+                >
+                  Enable browser notifications
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* История */}
+          <div className="px-4 pt-4 pb-2 flex items-center justify-between">
+            <span className="text-sm text-gray-400">History ({history.length})</span>
+            {history.length > 0 && (
+              <button
+                onClick={onClearHistory}
+                className="flex items-center gap-1 text-xs text-gray-400 hover:text-white transition-colors"
+              >
+                <Trash2 className="w-3 h-3" /> Clear
+              </button>
+            )}
+          </div>
+          <ScrollArea className="h-[40vh] px-4 pb-4">
+            {history.length === 0 ? (
+              <div className="text-center text-gray-500 py-8 text-sm">No alerts yet</div>
+            ) : (
+              <div className="space-y-1 font-mono text-sm">
+                {history.map(entry => (
+                  <div
+                    key={entry.id}
+                    className="flex items-center justify-between gap-3 py-1.5 border-b border-cyber-border/50"
+                  >
+                    <div className="min-w-0">
+                      <div className={
+                        entry.side === 'long' ? 'text-long-red' : entry.side === 'short' ? 'text-short-green' : 'text-accent-yellow'
+                      }>
+                        {entry.title}
+                      </div>
+                      <div className="text-xs text-gray-400 truncate">{entry.description}</div>
+                    </div>
+                    <span className="text-xs text-gray-500 flex-shrink-0">
+                      {new Date(entry.timestamp).toLocaleTimeString()}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+}
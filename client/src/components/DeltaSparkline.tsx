@@ -0,0 +1,51 @@
+import React from 'react';
+import { Area, ComposedChart, Line, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { LiquidationDeltaPoint } from '@shared/schema';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { RegimeThresholds } from '@/lib/deltaRegime';
+
+interface DeltaSparklineProps {
+  history: LiquidationDeltaPoint[];
+  thresholds: RegimeThresholds;
+}
+
+// Выше этого ratio линия обрезается, иначе один всплеск сплющивает весь график
+const MAX_VISIBLE_RATIO = 5;
+
+const chartConfig = {
+  deltaRatio: { label: 'Ratio', color: '#FBBF24' },
+  longsPerPercent: { label: 'Longs / 1%', color: '#EF4444' },
+  shortsPerPercent: { label: 'Shorts / 1%', color: '#22C55E' },
+} satisfies ChartConfig;
+
+// 📈 deltaRatio и ликвидации на 1% движения за последние сутки (точка — каждые 5 минут)
+export function DeltaSparkline({ history, thresholds }: DeltaSparklineProps) {
+  const data = history.map(point => ({
+    timestamp: point.timestamp,
+    deltaRatio: point.deltaRatio === null ? null : +point.deltaRatio.toFixed(2),
+    longsPerPercent: point.longsPerPercent === null ? null : Math.round(point.longsPerPercent),
+    shortsPerPercent: point.shortsPerPercent === null ? null : Math.round(point.shortsPerPercent),
+  }));
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-20 w-full">
+      <ComposedChart data={data} margin={{ top: 4, right: 0, bottom: 0, left: 0 }}>
+        <XAxis dataKey="timestamp" type="number" domain={['dataMin', 'dataMax']} hide />
+        <YAxis yAxisId="value" hide domain={[0, 'auto']} />
+        <YAxis yAxisId="ratio" hide domain={[0, (max: number) => Math.min(Math.max(max, thresholds.longSqueeze), MAX_VISIBLE_RATIO)]} allowDataOverflow />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => payload?.[0] ? new Date(payload[0].payload.timestamp).toLocaleTimeString() : ''}
+            />
+          }
+        />
+        <Area yAxisId="value" dataKey="longsPerPercent" type="monotone" stroke="var(--color-longsPerPercent)" fill="var(--color-longsPerPercent)" fillOpacity={0.15} strokeWidth={1} isAnimationActive={false} />
+        <Area yAxisId="value" dataKey="shortsPerPercent" type="monotone" stroke="var(--color-shortsPerPercent)" fill="var(--color-shortsPerPercent)" fillOpacity={0.15} strokeWidth={1} isAnimationActive={false} />
+        <ReferenceLine yAxisId="ratio" y={thresholds.longSqueeze} stroke="#EF4444" strokeDasharray="2 3" strokeOpacity={0.6} />
+        <ReferenceLine yAxisId="ratio" y={thresholds.shortSqueeze} stroke="#22C55E" strokeDasharray="2 3" strokeOpacity={0.6} />
+        <Line yAxisId="ratio" dataKey="deltaRatio" type="monotone" stroke="var(--color-deltaRatio)" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+      </ComposedChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,43 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { EXPORT_FORMATS, ExportFormat } from '@shared/schema';
+
+interface ExportActionProps {
+  minValue: number;
+  symbol: string | null; // null — все монеты
+}
+
+// 📤 Выгрузка истории с текущими фильтрами панели. Время в файле — в часовом поясе браузера
+export function ExportAction({ minValue, symbol }: ExportActionProps) {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+
+  const params = new URLSearchParams({
+    format,
+    minValue: String(minValue),
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  });
+  if (symbol) params.set('symbol', symbol);
+
+  return (
+    <div className="flex items-center gap-2 pt-2 border-t border-cyber-border">
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as ExportFormat)}
+        className="bg-cyber-border text-gray-300 text-xs rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-accent-blue"
+      >
+        {EXPORT_FORMATS.map(f => (
+          <option key={f} value={f}>{f.toUpperCase()}</option>
+        ))}
+      </select>
+      <a
+        href={`/api/liquidations/export?${params}`}
+        download
+        className="flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded text-xs bg-accent-blue hover:bg-blue-600 text-white transition-colors"
+        title={`Download history${symbol ? ` for ${symbol}` : ''} from $${minValue}`}
+      >
+        <Download className="w-3 h-3" />
+        Export
+      </a>
+    </div>
+  );
+}
@@ -1,16 +1,42 @@
 import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
-import { Liquidation, Platform } from '@shared/schema';
+import { Cascade, Kline, Liquidation, Platform } from '@shared/schema';
+import { KlineUpdate } from '@shared/wsProtocol';
 import { LiquidationBlock, Particle, AnimationState, Cannon, Cannonball } from '../types/liquidation';
 import { updateCannons, updateCannonballs, checkAndFireCannon, drawCannon, drawCannonball } from '../utils/CannonUtils';
+import { drawCascadeOverlay, drawCascadeShockwave } from '../utils/CascadeEffects';
+import { drawLiquidationHeatmap, estimateLiquidationLevels } from '../utils/LiquidationHeatmap';
+import { ChartMarker, drawLiquidationMarkers, findMarkerAt, layoutLiquidationMarkers } from '../utils/LiquidationMarkers';
+import { formatOiShare, shareOfOpenInterest } from '@/lib/marketContext';
+import { useChartLiquidations } from '../hooks/useChartLiquidations';
+import { SubscribeLiquidations } from '../hooks/useLiquidationStream';
+import { getExchangeMeta } from '@/lib/exchanges';
 
 interface LiquidationCanvasProps {
   liquidations: Liquidation[];
+  subscribeLiquidations: SubscribeLiquidations; // 📡 Весь поток — для меток на свечах
+  minValue?: number; // Порог меток на свечах (как у ленты)
   isPaused: boolean;
   chartOpacity?: number;
   timeframe: string;
   chartSymbol?: string; // 🔥 НОВОЕ: Символ для фонового графика
+  cascades?: Cascade[]; // ⚡ Идущие сейчас каскады
+  liveKline?: KlineUpdate | null; // 🕯️ Обновление свечи chartSymbol с сервера (/ws)
+  showHeatmap?: boolean; // 🔥 Оценка уровней ликвидаций поверх графика
+  showMarkers?: boolean; // 🎯 Ликвидации chartSymbol на свечах, в размер суммы
 }
 
+const NO_CASCADES: Cascade[] = [];
+
+const TIMEFRAME_MS: Record<string, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '30m': 30 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
 interface ExtendedAnimationState extends AnimationState {
   platform: Platform;
   leftCannon: Cannon;
@@ -20,10 +46,16 @@ interface ExtendedAnimationState extends AnimationState {
 
 export function LiquidationCanvas({ 
   liquidations, 
+  subscribeLiquidations,
+  minValue = 0,
   isPaused, 
   chartOpacity = 100,
   timeframe,
-  chartSymbol = 'BTCUSDT' // 🔥 По умолчанию BTC
+  chartSymbol = 'BTCUSDT', // 🔥 По умолчанию BTC
+  cascades = NO_CASCADES,
+  liveKline = null,
+  showHeatmap = true,
+  showMarkers = true
 }: LiquidationCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationStateRef = useRef<ExtendedAnimationState>({
@@ -78,16 +110,39 @@ export function LiquidationCanvas({
   const PARTICLE_CLEANUP_INTERVAL = 5000; // Очистка старых частиц каждые 5 сек
 
 
+  // ⚡ Каскады рисуются в цикле анимации — держим в ref; ударная волна — один раз на каскад
+  const cascadesRef = useRef<Cascade[]>(cascades);
+  const cascadeShockwaves = useRef(new Map<string, { side: Cascade['side']; startedAt: number }>());
+  const seenCascades = useRef(new Set<string>());
+
   // Update refs when props change
   useEffect(() => {
     chartOpacityRef.current = chartOpacity;
   }, [chartOpacity]);
 
+  useEffect(() => {
+    cascadesRef.current = cascades;
+    for (const cascade of cascades) {
+      if (!seenCascades.current.has(cascade.id)) {
+        seenCascades.current.add(cascade.id);
+        cascadeShockwaves.current.set(cascade.id, { side: cascade.side, startedAt: Date.now() });
+      }
+    }
+    if (seenCascades.current.size > MAX_PROCESSED_IDS) {
+      seenCascades.current = new Set(Array.from(seenCascades.current).slice(-(MAX_PROCESSED_IDS / 2)));
+    }
+  }, [cascades]);
+
   const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
   const [showFlashText, setShowFlashText] = useState(false);
   const [isFlashing, setIsFlashing] = useState(false);
   const [isSoundMuted, setIsSoundMuted] = useState(false);
 
+  // 🎯 Метки ликвидаций на графике: раскладка последнего кадра — для наведения мышью
+  const chartMarkersRef = useRef<ChartMarker[]>([]);
+  const hoveredMarkerIdRef = useRef<string | null>(null);
+  const [hoveredMarker, setHoveredMarker] = useState<ChartMarker | null>(null);
+
   // Audio context ref for consistent sound
   const audioContextRef = useRef<AudioContext | null>(null);
   
@@ -268,6 +323,7 @@ export function LiquidationCanvas({
       rotation: 0,
       rotationSpeed: 0, // No rotation for money bags
       coin: liquidation.symbol.replace('USDT', '').replace('USD', ''),
+      exchange: liquidation.exchange,
       isLong: liquidation.side === 'long',
       amount: liquidation.value,
       price: liquidation.price,
@@ -487,6 +543,34 @@ export function LiquidationCanvas({
     }
   }, [handleCanvasInteraction]);
 
+  // Подсказка по метке ликвидации под курсором
+  const handleCanvasMouseMove = useCallback((e: MouseEvent) => {
+    if (!canvasRef.current) return;
+    const rect = canvasRef.current.getBoundingClientRect();
+    const marker = findMarkerAt(chartMarkersRef.current, e.clientX - rect.left, e.clientY - rect.top);
+    const id = marker?.liquidation.id ?? null;
+    if (id === hoveredMarkerIdRef.current) return;
+    hoveredMarkerIdRef.current = id;
+    setHoveredMarker(marker);
+  }, []);
+
+  const handleCanvasMouseLeave = useCallback(() => {
+    hoveredMarkerIdRef.current = null;
+    setHoveredMarker(null);
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (canvas) {
+      canvas.addEventListener('mousemove', handleCanvasMouseMove);
+      canvas.addEventListener('mouseleave', handleCanvasMouseLeave);
+      return () => {
+        canvas.removeEventListener('mousemove', handleCanvasMouseMove);
+        canvas.removeEventListener('mouseleave', handleCanvasMouseLeave);
+      };
+    }
+  }, [handleCanvasMouseMove, handleCanvasMouseLeave]);
+
   useEffect(() => {
     const canvas = canvasRef.current;
     if (canvas) {
@@ -661,6 +745,16 @@ export function LiquidationCanvas({
     ctx.fillStyle = '#FFFFFF';
     ctx.fillText(formattedAmount, 0, bagHeight * 0.25);
 
+    // Биржа-источник мелкой подписью внизу мешка
+    const exchange = getExchangeMeta(block.exchange);
+    const exchangeFontSize = Math.max(9, bagWidth * 0.1);
+    ctx.font = `bold ${exchangeFontSize}px JetBrains Mono, monospace`;
+    ctx.strokeStyle = '#000000';
+    ctx.lineWidth = 2;
+    ctx.strokeText(exchange.short, 0, bagHeight * 0.42);
+    ctx.fillStyle = exchange.color;
+    ctx.fillText(exchange.short, 0, bagHeight * 0.42);
+
     ctx.restore();
   }, []);
 
@@ -763,7 +857,7 @@ export function LiquidationCanvas({
   }, []);
 
   // Real Bitcoin candlestick data from Binance with animation state
-  const [bitcoinCandles, setBitcoinCandles] = useState<any[]>([]);
+  const [bitcoinCandles, setBitcoinCandles] = useState<Kline[]>([]);
   const [lastUpdateTime, setLastUpdateTime] = useState<number>(0);
 
   
@@ -784,44 +878,22 @@ export function LiquidationCanvas({
     const fetchBitcoinData = async () => {
       try {
         const limit = timeframeLimits[timeframe] || 48;
-        let data: any[] = [];
-
-        // 1️⃣ Основной запрос — фьючерсы (Futures API)
-        let response = await fetch(`https://fapi.binance.com/fapi/v1/klines?symbol=${chartSymbol}&interval=${timeframe}&limit=${limit}`);
-        data = await response.json();
 
-        // 2️⃣ Если пусто или ошибка — fallback на Spot API
-        if (!Array.isArray(data) || data.length === 0 || (data as any).code) {
-          console.warn(`⚠️ Futures data empty/error for ${chartSymbol}, trying Spot API...`);
-          response = await fetch(`https://api.binance.com/api/v3/klines?symbol=${chartSymbol}&interval=${timeframe}&limit=${limit}`);
-          data = await response.json();
-        }
+        // 1️⃣ Свечи отдает наш сервер из общего кэша — к Binance из браузера не ходим
+        const response = await fetch(`/api/klines/${encodeURIComponent(chartSymbol)}?interval=${timeframe}&limit=${limit}`);
+        const body = await response.json();
+        const data: Kline[] = body.data;
 
-        // 3️⃣ Если всё ещё пусто — не обновляем график
-        if (!Array.isArray(data) || data.length === 0 || (data as any).code) {
-          console.error(`❌ No data available for ${chartSymbol} (neither Futures nor Spot)`);
+        // 2️⃣ Нет такого символа или источник недоступен — не обновляем график
+        if (!response.ok || !Array.isArray(data) || data.length === 0) {
+          console.error(`❌ No data available for ${chartSymbol}:`, body.error);
           return;
         }
 
-        // 4️⃣ Конвертируем и фильтруем невалидные свечи
-        const candles = data
-          .map((kline: any[]) => ({
-            timestamp: kline[0],
-            open: parseFloat(kline[1]),
-            high: parseFloat(kline[2]),
-            low: parseFloat(kline[3]),
-            close: parseFloat(kline[4]),
-            volume: parseFloat(kline[5]),
-          }))
-          .filter(c => {
-            // Фильтруем пустые свечи (все цены равны + нулевой объем)
-            const isEmpty = c.open === c.close && c.high === c.low && c.volume === 0;
-            // Фильтруем NaN значения
-            const isValid = !isNaN(c.open) && !isNaN(c.high) && !isNaN(c.low) && !isNaN(c.close);
-            return !isEmpty && isValid;
-          });
-
-        // 5️⃣ Проверка на минимальное количество валидных свечей
+        // 3️⃣ Фильтруем пустые свечи (все цены равны + нулевой объем)
+        const candles = data.filter(c => !(c.open === c.close && c.high === c.low && c.volume === 0));
+
+        // 4️⃣ Проверка на минимальное количество валидных свечей
         if (candles.length < 5) {
           console.warn(`⚠️ Too few valid candles for ${chartSymbol}: ${candles.length}`);
           return;
@@ -836,13 +908,32 @@ export function LiquidationCanvas({
       }
     };
     
+    // История — один раз; дальше свечи приходят по /ws (см. ниже)
     fetchBitcoinData();
-    
-    // 🔥 ОПТИМИЗАЦИЯ: Обновление каждые 10 секунд вместо 1 секунды (экономия памяти и CPU)
-    const interval = setInterval(fetchBitcoinData, 10 * 1000);
-    return () => clearInterval(interval);
   }, [timeframe, chartSymbol]); // 🔥 Перезагружаем при смене символа
 
+  // 🕯️ Обновление с сервера заменяет текущую свечу, а свеча нового интервала сдвигает график
+  useEffect(() => {
+    if (!liveKline || liveKline.symbol !== chartSymbol || liveKline.interval !== timeframe) return;
+    const kline = liveKline.kline;
+
+    setBitcoinCandles(prev => {
+      if (prev.length === 0) return prev;
+      const last = prev[prev.length - 1];
+      if (kline.timestamp < last.timestamp) return prev;
+      if (kline.timestamp === last.timestamp) return [...prev.slice(0, -1), kline];
+      return [...prev.slice(1), kline];
+    });
+    setLastUpdateTime(Date.now());
+  }, [liveKline, chartSymbol, timeframe]);
+
+  // 🔥 Ликвидации chartSymbol за видимые свечи — калибруют оценку уровней ликвидаций
+  const chartLiquidations = useChartLiquidations(subscribeLiquidations, chartSymbol, bitcoinCandles[0]?.timestamp, minValue);
+  const liquidationHeatmap = useMemo(
+    () => showHeatmap ? estimateLiquidationLevels(bitcoinCandles, chartLiquidations) : null,
+    [showHeatmap, bitcoinCandles, chartLiquidations]
+  );
+
   // 🔥 НОВОЕ: Умное форматирование цены в зависимости от величины (как на Binance)
   const formatPrice = useCallback((price: number): string => {
     if (!price || !isFinite(price)) return "—";
@@ -891,6 +982,12 @@ export function LiquidationCanvas({
     
     // Draw candlesticks in monochrome style - configurable opacity
     const actualOpacity = opacity !== undefined ? opacity : chartOpacity;
+
+    // Уровни ликвидаций — под свечами, в той же шкале цены
+    if (liquidationHeatmap) {
+      drawLiquidationHeatmap(ctx, liquidationHeatmap, chartWidth, height * 0.1, height * 0.8, actualOpacity / 100);
+    }
+
     ctx.globalAlpha = actualOpacity / 100;
     
     const candleWidth = Math.max(6, chartWidth / bitcoinCandles.length * 0.7);
@@ -968,6 +1065,20 @@ export function LiquidationCanvas({
     // Draw price scale to the right of chart
     const margin = height * 0.1;
     const chartHeight = height - 2 * margin;
+
+    // 🎯 Ликвидации монеты на своих свечах и ценах — пока свеча видна на графике
+    chartMarkersRef.current = showMarkers
+      ? layoutLiquidationMarkers(chartLiquidations, {
+          candleTimes: bitcoinCandles.map(candle => candle.timestamp),
+          intervalMs: TIMEFRAME_MS[timeframe] ?? TIMEFRAME_MS['1m'],
+          chartWidth,
+          top: margin,
+          chartHeight,
+          minPrice,
+          maxPrice,
+        })
+      : [];
+    drawLiquidationMarkers(ctx, chartMarkersRef.current, actualOpacity / 100, hoveredMarkerIdRef.current);
     
     // Price scale background
     ctx.globalAlpha = 0.05;
@@ -1047,7 +1158,7 @@ export function LiquidationCanvas({
     // No header text - clean chart appearance
     
     ctx.restore();
-  }, [bitcoinCandles, formatPrice]); // 🔥 Добавлена зависимость formatPrice
+  }, [bitcoinCandles, formatPrice, liquidationHeatmap, showMarkers, chartLiquidations, timeframe]); // 🔥 Добавлена зависимость formatPrice
 
   // Animation loop
   const animate = useCallback((currentTime: number) => {
@@ -1112,6 +1223,15 @@ export function LiquidationCanvas({
         drawCannonball(ctx, ball);
       });
 
+      // ⚡ Каскады: ударная волна при старте, свечение краев и баннер пока идут
+      const now = Date.now();
+      cascadeShockwaves.current.forEach((shockwave, id) => {
+        if (!drawCascadeShockwave(ctx, canvas.width, canvas.height, shockwave.side, shockwave.startedAt, now)) {
+          cascadeShockwaves.current.delete(id);
+        }
+      });
+      drawCascadeOverlay(ctx, canvas.width, canvas.height, cascadesRef.current, now);
+
       // Draw stylish mute button in bottom right corner
       const buttonSize = 40;
       const buttonX = canvas.width - buttonSize - 15;
@@ -1251,6 +1371,11 @@ export function LiquidationCanvas({
       />
       
 
+      {/* 🎯 Подсказка по метке ликвидации */}
+      {hoveredMarker && (
+        <LiquidationMarkerTooltip marker={hoveredMarker} containerWidth={canvasSize.width} formatPrice={formatPrice} />
+      )}
+
       {/* Flashing text "Click to explode bags" in center */}
       {showFlashText && (
         <div 
@@ -1271,3 +1396,45 @@ export function LiquidationCanvas({
     </div>
   );
 }
+
+function formatMarkerValue(value: number): string {
+  if (value >= 1000000) return `$${(value / 1000000).toFixed(2)}M`;
+  if (value >= 1000) return `$${(value / 1000).toFixed(1)}K`;
+  return `$${value.toFixed(0)}`;
+}
+
+interface LiquidationMarkerTooltipProps {
+  marker: ChartMarker;
+  containerWidth: number;
+  formatPrice: (price: number) => string;
+}
+
+function LiquidationMarkerTooltip({ marker, containerWidth, formatPrice }: LiquidationMarkerTooltipProps) {
+  const { liquidation } = marker;
+  const isLong = liquidation.side === 'long';
+  const exchange = getExchangeMeta(liquidation.exchange);
+  const oiShare = shareOfOpenInterest(liquidation.value, liquidation.context);
+  // У правого края подсказка уходит влево от метки, чтобы не вылезти за график
+  const offset = marker.radius + 6;
+  const position = marker.x > containerWidth * 0.7
+    ? { right: containerWidth - marker.x + offset, top: marker.y - marker.radius }
+    : { left: marker.x + offset, top: marker.y - marker.radius };
+
+  return (
+    <div
+      className="absolute z-20 pointer-events-none bg-black/80 backdrop-blur-sm border border-cyber-border rounded px-2 py-1 text-xs font-mono whitespace-nowrap"
+      style={position}
+    >
+      <div className={`font-bold ${isLong ? 'text-long-red' : 'text-short-green'}`}>
+        {isLong ? 'LONG' : 'SHORT'} {formatMarkerValue(liquidation.value)}
+      </div>
+      <div className="text-gray-300">
+        {liquidation.symbol} @ {formatPrice(liquidation.price)}
+      </div>
+      <div className="text-gray-500">
+        <span style={{ color: exchange.color }}>{exchange.name}</span> · {new Date(liquidation.timestamp).toLocaleTimeString()}
+        {oiShare !== null && <> · {formatOiShare(oiShare)} OI</>}
+      </div>
+    </div>
+  );
+}
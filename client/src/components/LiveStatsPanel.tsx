@@ -1,52 +1,202 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { ArrowDownWideNarrow, Clock, Plus, SlidersHorizontal, X } from 'lucide-react';
 import { Liquidation } from '@shared/schema';
+import { getExchangeMeta } from '@/lib/exchanges';
+import { formatFundingRate, formatOiShare, shareOfOpenInterest } from '@/lib/marketContext';
+import { MAX_TIER_DEPTH, WhaleTier, formatTierValue } from '@/lib/whaleTiers';
+import { WhaleTierList } from '../hooks/useWhaleTiers';
+
+type SortMode = 'time' | 'size';
 
 interface LiveStatsPanelProps {
-  recentLiquidations: Liquidation[];
+  lists: WhaleTierList[];
+  tiers: WhaleTier[];
+  onTiersChange: (tiers: WhaleTier[]) => void;
+  isLoading?: boolean;
+}
+
+const NEW_TIER_COLORS = ['#34D399', '#A78BFA', '#F87171', '#FB923C'];
+
+function formatCurrency(amount: number) {
+  if (amount >= 1000000) {
+    return `$${(amount / 1000000).toFixed(1)}M`;
+  }
+  if (amount >= 1000) {
+    return `$${(amount / 1000).toFixed(1)}K`;
+  }
+  return `$${amount.toFixed(0)}`;
+}
+
+function sortLiquidations(liquidations: Liquidation[], mode: SortMode): Liquidation[] {
+  return mode === 'size'
+    ? liquidations.slice().sort((a, b) => b.value - a.value)
+    : liquidations; // Уже новые сверху
 }
 
-export function LiveStatsPanel({ recentLiquidations }: LiveStatsPanelProps) {
-  const formatCurrency = (amount: number) => {
-    if (amount >= 1000000) {
-      return `$${(amount / 1000000).toFixed(1)}M`;
-    }
-    if (amount >= 1000) {
-      return `$${(amount / 1000).toFixed(1)}K`;
-    }
-    return `$${amount.toFixed(0)}`;
+// 📊 Доля ликвидации в OI символа на момент события — $2M на мелкой монете и на BTC весят по-разному
+function OiShare({ liquidation }: { liquidation: Liquidation }) {
+  const share = shareOfOpenInterest(liquidation.value, liquidation.context);
+  if (share === null) return null;
+
+  const fundingRate = liquidation.context?.fundingRate;
+  return (
+    <span
+      className={`text-[10px] ${share >= 0.1 ? 'text-accent-yellow' : 'text-gray-500'}`}
+      title={`Share of open interest${fundingRate != null ? `, funding ${formatFundingRate(fundingRate)}` : ''}`}
+    >
+      {formatOiShare(share)} OI
+    </span>
+  );
+}
+
+function TierEditor({ tiers, onChange }: { tiers: WhaleTier[]; onChange: (tiers: WhaleTier[]) => void }) {
+  const update = (index: number, patch: Partial<WhaleTier>) => {
+    onChange(tiers.map((tier, i) => i === index ? { ...tier, ...patch } : tier));
+  };
+
+  const addTier = () => {
+    const top = tiers[tiers.length - 1];
+    onChange([...tiers, {
+      minValue: top ? top.minValue * 4 : 50000,
+      color: NEW_TIER_COLORS[tiers.length % NEW_TIER_COLORS.length],
+      depth: top ? top.depth : 10,
+    }]);
   };
 
-  // 🔥 ИСПРАВЛЕНО: Показываем ровно 5 последних (не фильтруем, не обрезаем)
-  // Данные приходят уже готовые из lastFiveLiquidations
-  const displayLiquidations = recentLiquidations.slice(0, 5).reverse();
+  return (
+    <div className="space-y-1.5 mb-3 pb-3 border-b border-cyber-border text-xs">
+      <div className="grid grid-cols-[auto_1fr_auto_auto] gap-1.5 items-center text-gray-500">
+        <span />
+        <span>Min $</span>
+        <span>Rows</span>
+        <span />
+      </div>
+      {tiers.map((tier, index) => (
+        // minValue в ключе: после пересортировки поле с defaultValue пересоздается
+        <div key={`${index}-${tier.minValue}`} className="grid grid-cols-[auto_1fr_auto_auto] gap-1.5 items-center">
+          <input
+            type="color"
+            value={tier.color}
+            onChange={(e) => update(index, { color: e.target.value })}
+            className="w-5 h-5 bg-transparent border-0 p-0 cursor-pointer"
+          />
+          <input
+            type="number"
+            min={1}
+            step={10000}
+            defaultValue={tier.minValue}
+            // Применяем по выходу из поля — иначе уровни пересортировываются на каждой цифре
+            onBlur={(e) => {
+              const minValue = parseFloat(e.target.value);
+              if (minValue > 0 && minValue !== tier.minValue) update(index, { minValue });
+            }}
+            className="w-full bg-cyber-border text-white rounded px-1 py-0.5 font-mono"
+          />
+          <input
+            type="number"
+            min={1}
+            max={MAX_TIER_DEPTH}
+            value={tier.depth}
+            onChange={(e) => update(index, { depth: parseInt(e.target.value) || 1 })}
+            className="w-12 bg-cyber-border text-white rounded px-1 py-0.5 font-mono"
+          />
+          <button
+            onClick={() => onChange(tiers.filter((_, i) => i !== index))}
+            disabled={tiers.length <= 1}
+            className="text-gray-500 hover:text-white disabled:opacity-30 transition-colors"
+            title="Remove tier"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={addTier}
+        className="flex items-center gap-1 text-gray-400 hover:text-white transition-colors"
+      >
+        <Plus className="w-3 h-3" /> Add tier
+      </button>
+    </div>
+  );
+}
+
+// 💎 Крупные ликвидации по уровням: свой цвет и глубина у каждого, сверху самый крупный уровень
+export function LiveStatsPanel({ lists, tiers, onTiersChange, isLoading = false }: LiveStatsPanelProps) {
+  const [sortMode, setSortMode] = useState<SortMode>('time');
+  const [isEditing, setIsEditing] = useState(false);
+
+  const ordered = lists.slice().reverse();
 
   return (
-    <div className="bg-cyber-gray/90 backdrop-blur-md rounded-lg border border-cyber-border p-4 w-64">
+    <div className="bg-cyber-gray/90 backdrop-blur-md rounded-lg border border-cyber-border p-4 w-full max-h-[50vh] flex flex-col">
       <h3 className="text-base font-semibold mb-3 text-accent-blue flex items-center gap-2">
         💎 Крупные ликвидации
-        <span className="text-xs text-gray-400">$50K+</span>
+        <span className="ml-auto flex items-center gap-1">
+          <button
+            onClick={() => setSortMode(sortMode === 'time' ? 'size' : 'time')}
+            className="p-1 rounded text-gray-400 hover:text-white hover:bg-cyber-border transition-colors"
+            title={sortMode === 'time' ? 'Sorted by time' : 'Sorted by size'}
+          >
+            {sortMode === 'time' ? <Clock className="w-3.5 h-3.5" /> : <ArrowDownWideNarrow className="w-3.5 h-3.5" />}
+          </button>
+          <button
+            onClick={() => setIsEditing(!isEditing)}
+            className={`p-1 rounded transition-colors hover:bg-cyber-border ${isEditing ? 'text-white' : 'text-gray-400 hover:text-white'}`}
+            title="Configure tiers"
+          >
+            <SlidersHorizontal className="w-3.5 h-3.5" />
+          </button>
+        </span>
       </h3>
-      <div className="space-y-2 text-sm font-mono">
-        {displayLiquidations.length > 0 ? (
-          displayLiquidations.map((liquidation) => (
-            <div 
-              key={liquidation.id} 
-              className="flex justify-between items-center py-1 border-b border-cyber-border/50"
-            >
-              <span className="text-accent-yellow font-semibold">
-                {liquidation.symbol.replace('USDT', '').replace('USD', '')}
-              </span>
-              <span className={liquidation.side === 'long' ? 'text-long-red' : 'text-short-green'}>
-                {liquidation.side === 'long' ? '-' : '+'}
-                {formatCurrency(liquidation.value)}
+
+      {isEditing && <TierEditor tiers={tiers} onChange={onTiersChange} />}
+
+      <div className="overflow-y-auto min-h-0 space-y-3 pr-1">
+        {ordered.map(({ tier, maxValue, liquidations }) => (
+          <div key={tier.minValue}>
+            <div className="flex items-center justify-between text-xs mb-1" style={{ color: tier.color }}>
+              <span className="font-semibold">
+                {formatTierValue(tier.minValue)}{maxValue === null ? '+' : ` – ${formatTierValue(maxValue)}`}
               </span>
+              <span className="text-gray-500">{liquidations.length}/{tier.depth}</span>
+            </div>
+            <div className="space-y-1 text-sm font-mono border-l-2 pl-2" style={{ borderColor: tier.color }}>
+              {liquidations.length > 0 ? (
+                sortLiquidations(liquidations, sortMode).map((liquidation) => (
+                  <div
+                    key={liquidation.id}
+                    className="flex justify-between items-center py-0.5 border-b border-cyber-border/50"
+                    title={new Date(liquidation.timestamp).toLocaleString()}
+                  >
+                    <span className="flex items-center gap-1.5">
+                      <span className="text-accent-yellow font-semibold">
+                        {liquidation.symbol.replace('USDT', '').replace('USD', '')}
+                      </span>
+                      <span
+                        className="text-[10px]"
+                        style={{ color: getExchangeMeta(liquidation.exchange).color }}
+                        title={getExchangeMeta(liquidation.exchange).name}
+                      >
+                        {getExchangeMeta(liquidation.exchange).short}
+                      </span>
+                    </span>
+                    <span className="flex items-center gap-1.5">
+                      <OiShare liquidation={liquidation} />
+                      <span className={liquidation.side === 'long' ? 'text-long-red' : 'text-short-green'}>
+                        {liquidation.side === 'long' ? '-' : '+'}
+                        {formatCurrency(liquidation.value)}
+                      </span>
+                    </span>
+                  </div>
+                ))
+              ) : (
+                <div className="text-center text-gray-500 py-1 text-xs">
+                  {isLoading ? 'Loading...' : 'Waiting for liquidation data...'}
+                </div>
+              )}
             </div>
-          ))
-        ) : (
-          <div className="text-center text-gray-500 py-4">
-            Waiting for liquidation data...
           </div>
-        )}
+        ))}
       </div>
     </div>
   );
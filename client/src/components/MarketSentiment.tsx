@@ -1,78 +1,59 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { MarketStats } from "@shared/schema";
-import { TrendingUp, TrendingDown, Activity } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { DELTA_MIN_MOVE_PERCENT, DELTA_RATIO_CAP, DELTA_WINDOWS, DeltaWindow, LiquidationDelta, MARKET_SYMBOL, MarketStats, StatsWindow, SymbolStats } from "@shared/schema";
+import { TrendingUp, TrendingDown, Activity, SlidersHorizontal } from "lucide-react";
+import { DEFAULT_REGIME_THRESHOLDS, REGIME_META, RegimeThresholds, classifyRegime, isValidThresholds } from "@/lib/deltaRegime";
+import { useLiquidationDelta } from "../hooks/useLiquidationDelta";
+import { DeltaSparkline } from "./DeltaSparkline";
 
 interface MarketSentimentProps {
   stats: MarketStats;
+  statsSymbol?: string | null;   // 🎯 Монета, выбранная в поиске
+  symbolStats?: SymbolStats | null;
+  statsWindow?: StatsWindow;
 }
 
-export function MarketSentiment({ stats }: MarketSentimentProps) {
-  const delta = stats.priceMovementDelta;
-  
-  // Fallback на старую метрику если delta еще не рассчитана
-  if (!delta || delta.priceChange === 0) {
-    const totalRatio = stats.longShortRatio.longs + stats.longShortRatio.shorts;
-    const longPercentage = totalRatio > 0 
-      ? (stats.longShortRatio.longs / totalRatio) * 100 
-      : 50;
-    const shortPercentage = 100 - longPercentage;
-
-    return (
-      <Card className="bg-gray-900/50 border-red-500/30">
-        <CardHeader>
-          <CardTitle className="text-red-400 flex items-center gap-2 text-base">
-            <Activity className="w-4 h-4" />
-            🔥 Liq Delta
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-4">
-            <div>
-              <div className="flex justify-between text-sm mb-2">
-                <span className="text-red-400">Longs</span>
-                <span className="text-red-400 font-mono">{longPercentage.toFixed(1)}%</span>
-              </div>
-              <div className="w-full bg-gray-800 rounded-full h-2">
-                <div 
-                  className="bg-red-500 h-2 rounded-full transition-all duration-300"
-                  style={{ width: `${longPercentage}%` }}
-                />
-              </div>
-            </div>
-
-            <div>
-              <div className="flex justify-between text-sm mb-2">
-                <span className="text-green-400">Shorts</span>
-                <span className="text-green-400 font-mono">{shortPercentage.toFixed(1)}%</span>
-              </div>
-              <div className="w-full bg-gray-800 rounded-full h-2">
-                <div 
-                  className="bg-green-500 h-2 rounded-full transition-all duration-300"
-                  style={{ width: `${shortPercentage}%` }}
-                />
-              </div>
-            </div>
+const THRESHOLDS_KEY = 'liquidationDelta.regimeThresholds';
 
-            <div className="pt-2 border-t border-gray-700">
-              <p className="text-xs text-gray-400">
-                Collecting price movement data...
-              </p>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
-    );
+function loadThresholds(): RegimeThresholds {
+  try {
+    const raw = localStorage.getItem(THRESHOLDS_KEY);
+    const thresholds = raw ? { ...DEFAULT_REGIME_THRESHOLDS, ...JSON.parse(raw) } : DEFAULT_REGIME_THRESHOLDS;
+    return isValidThresholds(thresholds) ? thresholds : DEFAULT_REGIME_THRESHOLDS;
+  } catch {
+    return DEFAULT_REGIME_THRESHOLDS;
   }
+}
 
-  // 🔥 НОВАЯ МЕТРИКА: Ликвидации на единицу движения цены
-  const priceDirection = delta.priceChange > 0 ? 'up' : 'down';
-  const isLongsStronger = delta.deltaRatio > 1;
-  
-  // Нормализуем для отображения (0-100%)
-  const maxValue = Math.max(delta.longsPerPriceUnit, delta.shortsPerPriceUnit);
-  const longsPercentage = maxValue > 0 ? (delta.longsPerPriceUnit / maxValue) * 100 : 0;
-  const shortsPercentage = maxValue > 0 ? (delta.shortsPerPriceUnit / maxValue) * 100 : 0;
+function formatPrice(price: number) {
+  if (price >= 1000) return price.toFixed(0);
+  if (price >= 1) return price.toFixed(2);
+  return price.toPrecision(4);
+}
+
+function formatUsd(amount: number) {
+  if (amount >= 1000000) return `$${(amount / 1000000).toFixed(2)}M`;
+  return `$${(amount / 1000).toFixed(1)}K`;
+}
+
+export function MarketSentiment({ stats, statsSymbol, symbolStats, statsWindow = '24h' }: MarketSentimentProps) {
+  const [deltaWindow, setDeltaWindow] = useState<DeltaWindow>('1h');
+  const { data } = useLiquidationDelta(statsSymbol ?? MARKET_SYMBOL, deltaWindow);
+  const delta = data?.current ?? null;
+  const hasDelta = delta !== null && delta.deltaRatio !== null;
+  const history = data?.history ?? [];
+  const [thresholds, setThresholds] = useState<RegimeThresholds>(loadThresholds);
+  const regime = delta && delta.deltaRatio !== null ? classifyRegime(delta.deltaRatio, thresholds) : null;
+
+  useEffect(() => {
+    localStorage.setItem(THRESHOLDS_KEY, JSON.stringify(thresholds));
+  }, [thresholds]);
+
+  // Пока цена не сдвинулась на порог — показываем простое соотношение лонгов и шортов
+  const note = !delta
+    ? 'Collecting price movement data...'
+    : `Price moved less than ${DELTA_MIN_MOVE_PERCENT}% in ${deltaWindow}`;
 
   return (
     <Card className="bg-gray-900/50 border-red-500/30">
@@ -80,84 +61,303 @@ export function MarketSentiment({ stats }: MarketSentimentProps) {
         <CardTitle className="text-red-400 flex items-center gap-2 text-base">
           <Activity className="w-4 h-4" />
           🔥 Liq Delta
+          <span className="ml-auto flex items-center gap-1">
+            {statsSymbol && <span className="text-xs font-mono text-accent-yellow mr-1">{statsSymbol}</span>}
+            {DELTA_WINDOWS.map(window => (
+              <button
+                key={window}
+                onClick={() => setDeltaWindow(window)}
+                className={`px-1.5 py-0.5 rounded text-[10px] font-mono transition-colors ${
+                  deltaWindow === window
+                    ? 'bg-red-500/30 text-red-300'
+                    : 'text-gray-500 hover:text-gray-300'
+                }`}
+              >
+                {window}
+              </button>
+            ))}
+          </span>
         </CardTitle>
       </CardHeader>
       <CardContent>
-        <div className="space-y-4">
-          {/* Информация о движении цены */}
-          <div className="flex items-center justify-between bg-gray-800/50 rounded-lg p-3">
-            <div className="flex items-center gap-2">
-              {priceDirection === 'up' ? (
-                <TrendingUp className="w-4 h-4 text-green-400" />
-              ) : (
-                <TrendingDown className="w-4 h-4 text-red-400" />
-              )}
-              <span className="text-xs text-gray-400">BTC Price</span>
-            </div>
-            <div className="text-right">
-              <div className="text-sm font-mono text-white">
-                ${delta.lastPrice.toFixed(0)}
-              </div>
-              <div className={`text-xs font-mono ${priceDirection === 'up' ? 'text-green-400' : 'text-red-400'}`}>
-                {priceDirection === 'up' ? '+' : ''}{delta.priceChange.toFixed(0)}
-              </div>
-            </div>
+        {/* 🚦 Режим и тренд за сутки */}
+        <div className="flex items-center gap-2 mb-2">
+          {regime ? (
+            <span className={`px-2 py-0.5 rounded border text-xs font-semibold ${REGIME_META[regime].className}`}>
+              {REGIME_META[regime].label}
+            </span>
+          ) : (
+            <span className="px-2 py-0.5 rounded border text-xs text-gray-500 border-gray-700">No regime yet</span>
+          )}
+          <ThresholdsPopover thresholds={thresholds} onChange={setThresholds} />
+        </div>
+        {history.some(point => point.deltaRatio !== null) && (
+          <div className="mb-3">
+            <DeltaSparkline history={history} thresholds={thresholds} />
           </div>
+        )}
+        {hasDelta ? (
+          <DeltaBreakdown delta={delta} priceLabel={statsSymbol ? `${statsSymbol.replace(/USDT?$/, '')} Price` : 'BTC Price'} />
+        ) : statsSymbol ? (
+          <SymbolSentiment symbol={statsSymbol} stats={symbolStats ?? null} statsWindow={statsWindow} note={note} />
+        ) : (
+          <MarketSplit stats={stats} note={note} />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
 
-          {/* Longs per Price Unit */}
-          <div>
-            <div className="flex justify-between text-sm mb-2">
-              <span className="text-red-400">Longs / $1 move</span>
-              <span className="text-red-400 font-mono">
-                ${(delta.longsPerPriceUnit / 1000).toFixed(1)}K
-              </span>
-            </div>
-            <div className="w-full bg-gray-800 rounded-full h-2">
-              <div 
-                className="bg-red-500 h-2 rounded-full transition-all duration-300"
-                style={{ width: `${longsPercentage}%` }}
-              />
-            </div>
-          </div>
+// Пороги режимов: ratio выше longSqueeze — выносят лонги, ниже shortSqueeze — шорты
+function ThresholdsPopover({ thresholds, onChange }: { thresholds: RegimeThresholds; onChange: (thresholds: RegimeThresholds) => void }) {
+  const update = (patch: Partial<RegimeThresholds>) => {
+    const next = { ...thresholds, ...patch };
+    if (isValidThresholds(next)) onChange(next);
+  };
 
-          {/* Shorts per Price Unit */}
-          <div>
-            <div className="flex justify-between text-sm mb-2">
-              <span className="text-green-400">Shorts / $1 move</span>
-              <span className="text-green-400 font-mono">
-                ${(delta.shortsPerPriceUnit / 1000).toFixed(1)}K
-              </span>
-            </div>
-            <div className="w-full bg-gray-800 rounded-full h-2">
-              <div 
-                className="bg-green-500 h-2 rounded-full transition-all duration-300"
-                style={{ width: `${shortsPercentage}%` }}
-              />
-            </div>
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button className="ml-auto p-1 rounded text-gray-500 hover:text-gray-300 transition-colors" title="Regime thresholds">
+          <SlidersHorizontal className="w-3.5 h-3.5" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-56 bg-cyber-gray border-cyber-border text-white text-xs space-y-2">
+        <div className="font-semibold text-gray-300">Regime thresholds (ratio)</div>
+        <label className="flex items-center justify-between gap-2">
+          <span className="text-red-400">Long squeeze ≥</span>
+          <input
+            type="number"
+            step={0.1}
+            min={0.1}
+            key={`long-${thresholds.longSqueeze}`}
+            defaultValue={thresholds.longSqueeze}
+            onBlur={(e) => update({ longSqueeze: parseFloat(e.target.value) })}
+            className="w-16 bg-cyber-border text-white rounded px-1 py-0.5 font-mono"
+          />
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          <span className="text-green-400">Short squeeze ≤</span>
+          <input
+            type="number"
+            step={0.1}
+            min={0.01}
+            key={`short-${thresholds.shortSqueeze}`}
+            defaultValue={thresholds.shortSqueeze}
+            onBlur={(e) => update({ shortSqueeze: parseFloat(e.target.value) })}
+            className="w-16 bg-cyber-border text-white rounded px-1 py-0.5 font-mono"
+          />
+        </label>
+        <button
+          onClick={() => onChange(DEFAULT_REGIME_THRESHOLDS)}
+          className="text-gray-400 hover:text-white transition-colors"
+        >
+          Reset to {DEFAULT_REGIME_THRESHOLDS.longSqueeze} / {DEFAULT_REGIME_THRESHOLDS.shortSqueeze}
+        </button>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+// 🔥 Ликвидации на 1% движения цены за окно
+function DeltaBreakdown({ delta, priceLabel }: { delta: LiquidationDelta; priceLabel: string }) {
+  const priceDirection = delta.priceChangePercent > 0 ? 'up' : 'down';
+  const deltaRatio = delta.deltaRatio ?? 1;
+  const isLongsStronger = deltaRatio > 1;
+  const longsPerPercent = delta.longsPerPercent ?? 0;
+  const shortsPerPercent = delta.shortsPerPercent ?? 0;
+
+  // Нормализуем для отображения (0-100%)
+  const maxValue = Math.max(longsPerPercent, shortsPerPercent);
+  const longsPercentage = maxValue > 0 ? (longsPerPercent / maxValue) * 100 : 0;
+  const shortsPercentage = maxValue > 0 ? (shortsPerPercent / maxValue) * 100 : 0;
+
+  return (
+    <div className="space-y-4">
+      {/* Информация о движении цены */}
+      <div className="flex items-center justify-between bg-gray-800/50 rounded-lg p-3">
+        <div className="flex items-center gap-2">
+          {priceDirection === 'up' ? (
+            <TrendingUp className="w-4 h-4 text-green-400" />
+          ) : (
+            <TrendingDown className="w-4 h-4 text-red-400" />
+          )}
+          <span className="text-xs text-gray-400">{priceLabel}</span>
+        </div>
+        <div className="text-right">
+          <div className="text-sm font-mono text-white">
+            ${formatPrice(delta.lastPrice)}
           </div>
+          <div className={`text-xs font-mono ${priceDirection === 'up' ? 'text-green-400' : 'text-red-400'}`}>
+            {priceDirection === 'up' ? '+' : ''}{delta.priceChangePercent.toFixed(2)}%
+          </div>
+        </div>
+      </div>
+
+      {/* Longs per 1% move */}
+      <div>
+        <div className="flex justify-between text-sm mb-2">
+          <span className="text-red-400">Longs / 1% move</span>
+          <span className="text-red-400 font-mono">{formatUsd(longsPerPercent)}</span>
+        </div>
+        <div className="w-full bg-gray-800 rounded-full h-2">
+          <div
+            className="bg-red-500 h-2 rounded-full transition-all duration-300"
+            style={{ width: `${longsPercentage}%` }}
+          />
+        </div>
+      </div>
 
-          {/* Интерпретация */}
-          <div className="pt-2 border-t border-gray-700">
+      {/* Shorts per 1% move */}
+      <div>
+        <div className="flex justify-between text-sm mb-2">
+          <span className="text-green-400">Shorts / 1% move</span>
+          <span className="text-green-400 font-mono">{formatUsd(shortsPerPercent)}</span>
+        </div>
+        <div className="w-full bg-gray-800 rounded-full h-2">
+          <div
+            className="bg-green-500 h-2 rounded-full transition-all duration-300"
+            style={{ width: `${shortsPercentage}%` }}
+          />
+        </div>
+      </div>
+
+      {/* Интерпретация */}
+      <div className="pt-2 border-t border-gray-700">
+        <div className="flex items-center gap-2 text-xs">
+          <span className="text-gray-400">Ratio:</span>
+          <span className={`font-mono font-bold ${isLongsStronger ? 'text-red-400' : 'text-green-400'}`}>
+            {deltaRatio >= DELTA_RATIO_CAP ? `≥${DELTA_RATIO_CAP}` : deltaRatio.toFixed(2)}x
+          </span>
+        </div>
+        <p className="text-xs text-gray-400 mt-1">
+          {isLongsStronger ? (
+            <span className="text-red-400">
+              🔥 More longs liquidated per price move
+            </span>
+          ) : (
+            <span className="text-green-400">
+              🔥 More shorts liquidated per price move
+            </span>
+          )}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+// Fallback: доля лонгов и шортов по рынку
+function MarketSplit({ stats, note }: { stats: MarketStats; note: string }) {
+  const totalRatio = stats.longShortRatio.longs + stats.longShortRatio.shorts;
+  const longPercentage = totalRatio > 0
+    ? (stats.longShortRatio.longs / totalRatio) * 100
+    : 50;
+  const shortPercentage = 100 - longPercentage;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex justify-between text-sm mb-2">
+          <span className="text-red-400">Longs</span>
+          <span className="text-red-400 font-mono">{longPercentage.toFixed(1)}%</span>
+        </div>
+        <div className="w-full bg-gray-800 rounded-full h-2">
+          <div
+            className="bg-red-500 h-2 rounded-full transition-all duration-300"
+            style={{ width: `${longPercentage}%` }}
+          />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex justify-between text-sm mb-2">
+          <span className="text-green-400">Shorts</span>
+          <span className="text-green-400 font-mono">{shortPercentage.toFixed(1)}%</span>
+        </div>
+        <div className="w-full bg-gray-800 rounded-full h-2">
+          <div
+            className="bg-green-500 h-2 rounded-full transition-all duration-300"
+            style={{ width: `${shortPercentage}%` }}
+          />
+        </div>
+      </div>
+
+      <div className="pt-2 border-t border-gray-700">
+        <p className="text-xs text-gray-400">{note}</p>
+      </div>
+    </div>
+  );
+}
+
+interface SymbolSentimentProps {
+  symbol: string;
+  stats: SymbolStats | null;
+  statsWindow: StatsWindow;
+  note: string;
+}
+
+// Fallback: доля лонгов и шортов монеты за окно статистики
+function SymbolSentiment({ symbol, stats, statsWindow, note }: SymbolSentimentProps) {
+  const window = stats?.windows[statsWindow];
+  const longs = window?.longs ?? 0;
+  const shorts = window?.shorts ?? 0;
+  const total = longs + shorts;
+  const longPercentage = total > 0 ? (longs / total) * 100 : 50;
+  const shortPercentage = 100 - longPercentage;
+  const ratio = shorts > 0 ? longs / shorts : null;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex justify-between text-sm mb-2">
+          <span className="text-red-400">Longs ({window?.longCount ?? 0})</span>
+          <span className="text-red-400 font-mono">${(longs / 1000).toFixed(1)}K</span>
+        </div>
+        <div className="w-full bg-gray-800 rounded-full h-2">
+          <div
+            className="bg-red-500 h-2 rounded-full transition-all duration-300"
+            style={{ width: `${longPercentage}%` }}
+          />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex justify-between text-sm mb-2">
+          <span className="text-green-400">Shorts ({window?.shortCount ?? 0})</span>
+          <span className="text-green-400 font-mono">${(shorts / 1000).toFixed(1)}K</span>
+        </div>
+        <div className="w-full bg-gray-800 rounded-full h-2">
+          <div
+            className="bg-green-500 h-2 rounded-full transition-all duration-300"
+            style={{ width: `${shortPercentage}%` }}
+          />
+        </div>
+      </div>
+
+      <div className="pt-2 border-t border-gray-700">
+        {total === 0 ? (
+          <p className="text-xs text-gray-400">
+            {stats ? `No ${symbol} liquidations in the last ${statsWindow}` : 'Loading...'}
+          </p>
+        ) : (
+          <>
             <div className="flex items-center gap-2 text-xs">
               <span className="text-gray-400">Ratio:</span>
-              <span className={`font-mono font-bold ${isLongsStronger ? 'text-red-400' : 'text-green-400'}`}>
-                {delta.deltaRatio.toFixed(2)}x
+              <span className={`font-mono font-bold ${longs > shorts ? 'text-red-400' : 'text-green-400'}`}>
+                {ratio !== null ? `${ratio.toFixed(2)}x` : '∞'}
               </span>
             </div>
             <p className="text-xs text-gray-400 mt-1">
-              {isLongsStronger ? (
-                <span className="text-red-400">
-                  🔥 More longs liquidated per price move
-                </span>
+              {longs > shorts ? (
+                <span className="text-red-400">🔥 More longs liquidated</span>
               ) : (
-                <span className="text-green-400">
-                  🔥 More shorts liquidated per price move
-                </span>
+                <span className="text-green-400">🔥 More shorts liquidated</span>
               )}
             </p>
-          </div>
-        </div>
-      </CardContent>
-    </Card>
+          </>
+        )}
+        <p className="text-xs text-gray-500 mt-1">{note}</p>
+      </div>
+    </div>
   );
 }
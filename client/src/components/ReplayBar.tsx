@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { Pause, Play, RotateCcw } from 'lucide-react';
+import { REPLAY_SPEEDS, ReplayControl, ReplayState } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+
+interface ReplayBarProps {
+  state: ReplayState;
+}
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mm = String(minutes).padStart(hours > 0 ? 2 : 1, '0');
+  const ss = String(seconds).padStart(2, '0');
+  return hours > 0 ? `${hours}:${mm}:${ss}` : `${mm}:${ss}`;
+}
+
+// ⏯️ Панель воспроизведения записанной сессии: пауза, перемотка, скорость.
+// Состояние — с сервера (сообщения replay), команды — POST /api/replay
+export function ReplayBar({ state }: ReplayBarProps) {
+  // Пока ползунок тянут, позиция с сервера его не перебивает
+  const [seekPosition, setSeekPosition] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSeekPosition(null);
+  }, [state.file]);
+
+  const control = async (command: ReplayControl) => {
+    try {
+      await apiRequest('POST', '/api/replay', command);
+      setError(null);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const commitSeek = () => {
+    if (seekPosition === null) return;
+    control({ position: seekPosition }).finally(() => setSeekPosition(null));
+  };
+
+  const position = seekPosition ?? state.position;
+  const isPlaying = state.status === 'playing';
+  const recordedAt = new Date(state.startTime + position);
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 w-[min(640px,calc(100%-2rem))] bg-cyber-gray/90 backdrop-blur-md border border-cyber-border rounded-lg px-4 py-2 shadow-lg">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => control({ playing: !isPlaying })}
+          className="p-2 rounded-full bg-accent-blue hover:bg-blue-600 text-white transition-colors"
+          title={isPlaying ? 'Pause' : state.status === 'ended' ? 'Replay from start' : 'Play'}
+        >
+          {isPlaying
+            ? <Pause className="w-4 h-4" />
+            : state.status === 'ended' ? <RotateCcw className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </button>
+
+        <div className="flex-1 min-w-0">
+          <input
+            type="range"
+            min={0}
+            max={Math.max(state.duration, 1)}
+            step={1000}
+            value={position}
+            onChange={(e) => setSeekPosition(Number(e.target.value))}
+            onMouseUp={commitSeek}
+            onTouchEnd={commitSeek}
+            onKeyUp={commitSeek}
+            className="w-full h-2 bg-cyber-border rounded-lg appearance-none cursor-pointer slider"
+          />
+          <div className="flex justify-between text-xs text-gray-400 font-mono mt-1">
+            <span title={state.file}>
+              REPLAY {recordedAt.toLocaleDateString()} {recordedAt.toLocaleTimeString()}
+            </span>
+            <span>{formatDuration(position)} / {formatDuration(state.duration)}</span>
+          </div>
+        </div>
+
+        <div className="flex gap-1">
+          {REPLAY_SPEEDS.map(speed => (
+            <button
+              key={speed}
+              onClick={() => control({ speed })}
+              className={`px-2 py-1 text-xs font-mono rounded transition-colors ${
+                state.speed === speed
+                  ? 'bg-accent-yellow text-black'
+                  : 'bg-cyber-border text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {speed}x
+            </button>
+          ))}
+        </div>
+      </div>
+      {error && <div className="text-xs text-long-red mt-1">{error}</div>}
+    </div>
+  );
+}
@@ -1,15 +1,41 @@
 import React from 'react';
-import { MarketStats } from '@shared/schema';
+import { X } from 'lucide-react';
+import { KLINE_INTERVALS, KlineInterval, MarketStats, OpenInterestStats, STATS_WINDOWS, StatsWindow, SymbolStats } from '@shared/schema';
+import { formatFundingRate, formatOiShare, formatSignedPercent } from '@/lib/marketContext';
 
 interface StatsHeaderProps {
   stats: MarketStats;
   isConnected: boolean;
-  timeframe?: string;
-  onTimeframeChange?: (timeframe: string) => void;
+  timeframe?: KlineInterval;
+  onTimeframeChange?: (timeframe: KlineInterval) => void;
+  statsWindow: StatsWindow;
+  onStatsWindowChange: (window: StatsWindow) => void;
+  statsSymbol?: string | null;          // 🎯 Монета, выбранная в поиске (null — весь рынок)
+  symbolStats?: SymbolStats | null;
+  onClearStatsSymbol?: () => void;
+  chartSymbol?: string;                      // 📊 OI и funding показываем для монеты графика
+  openInterest?: OpenInterestStats | null;
+  fundingRate?: number | null;               // Живое значение из ценового потока
 }
 
-export function StatsHeader({ stats, isConnected, timeframe, onTimeframeChange }: StatsHeaderProps) {
+export function StatsHeader({
+  stats,
+  isConnected,
+  timeframe,
+  onTimeframeChange,
+  statsWindow,
+  onStatsWindowChange,
+  statsSymbol,
+  symbolStats,
+  onClearStatsSymbol,
+  chartSymbol,
+  openInterest,
+  fundingRate,
+}: StatsHeaderProps) {
   const formatCurrency = (amount: number) => {
+    if (amount >= 1000000000) {
+      return `$${(amount / 1000000000).toFixed(2)}B`;
+    }
     if (amount >= 1000000) {
       return `$${(amount / 1000000).toFixed(2)}M`;
     }
@@ -19,10 +45,25 @@ export function StatsHeader({ stats, isConnected, timeframe, onTimeframeChange }
     return `$${amount.toFixed(0)}`;
   };
 
+  const formatPrice = (price: number) => {
+    return price >= 100 ? `$${price.toFixed(0)}` : `$${price.toPrecision(4)}`;
+  };
+
+  // Суммы за выбранное скользящее окно (старый сервер присылает только 24h-итоги).
+  // Если выбрана монета — ее статистика (пока не пришла — нули)
+  const symbolWindow = statsSymbol ? symbolStats?.windows[statsWindow] : undefined;
+  const windowStats = statsSymbol ? symbolWindow : stats.windows?.[statsWindow];
+  const totalLongs = windowStats ? windowStats.longs : statsSymbol ? 0 : stats.totalLongs;
+  const totalShorts = windowStats ? windowStats.shorts : statsSymbol ? 0 : stats.totalShorts;
+
   // Рассчитываем доминирование лонгов или шортов
-  const totalVolume = stats.totalLongs + stats.totalShorts;
-  const longDominance = totalVolume > 0 ? (stats.totalLongs / totalVolume * 100).toFixed(0) : 0;
-  const shortDominance = totalVolume > 0 ? (stats.totalShorts / totalVolume * 100).toFixed(0) : 0;
+  const totalVolume = totalLongs + totalShorts;
+  const longDominance = totalVolume > 0 ? (totalLongs / totalVolume * 100).toFixed(0) : 0;
+  const shortDominance = totalVolume > 0 ? (totalShorts / totalVolume * 100).toFixed(0) : 0;
+
+  // 📊 Ликвидации монеты графика относительно ее открытого интереса
+  const oiWindow = openInterest?.windows[statsWindow];
+  const currentFunding = fundingRate ?? openInterest?.fundingRate ?? null;
 
   return (
     <div className="fixed top-0 left-0 right-0 z-50 bg-cyber-gray/90 backdrop-blur-md border-b border-cyber-border">
@@ -33,52 +74,136 @@ export function StatsHeader({ stats, isConnected, timeframe, onTimeframeChange }
               CryptoLiquidations
             </h1>
             <div className="flex items-center space-x-4 lg:space-x-6 overflow-x-auto w-full lg:w-auto">
+              {/* Stats Window Selector */}
+              <div className="flex flex-col gap-0.5 flex-shrink-0">
+                {STATS_WINDOWS.map((window) => (
+                  <button
+                    key={window}
+                    onClick={() => onStatsWindowChange(window)}
+                    className={`
+                      px-1.5 text-[10px] font-mono rounded transition-all duration-200
+                      ${statsWindow === window
+                        ? 'bg-accent-yellow text-black font-bold'
+                        : 'text-gray-400 hover:text-white hover:bg-white/10'
+                      }
+                    `}
+                  >
+                    {window}
+                  </button>
+                ))}
+              </div>
+              {/* Stats Scope */}
+              {statsSymbol && (
+                <div className="flex items-center gap-1 flex-shrink-0 px-2 py-1 rounded bg-accent-yellow/10 border border-accent-yellow/40">
+                  <span className="text-xs font-mono font-bold text-accent-yellow">{statsSymbol}</span>
+                  {onClearStatsSymbol && (
+                    <button
+                      onClick={onClearStatsSymbol}
+                      className="text-gray-400 hover:text-white transition-colors"
+                      title="Show whole market"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  )}
+                </div>
+              )}
               <div className="text-center flex-shrink-0">
-                <div className="text-xs lg:text-sm text-gray-400">Longs (24h)</div>
+                <div className="text-xs lg:text-sm text-gray-400">Longs ({statsWindow})</div>
                 <div className="text-lg lg:text-xl font-mono font-bold text-long-red stats-glow">
-                  {formatCurrency(stats.totalLongs)}
+                  {formatCurrency(totalLongs)}
                 </div>
                 <div className="text-xs text-gray-500">{longDominance}%</div>
               </div>
               <div className="text-center flex-shrink-0">
-                <div className="text-xs lg:text-sm text-gray-400">Shorts (24h)</div>
+                <div className="text-xs lg:text-sm text-gray-400">Shorts ({statsWindow})</div>
                 <div className="text-lg lg:text-xl font-mono font-bold text-short-green stats-glow">
-                  {formatCurrency(stats.totalShorts)}
+                  {formatCurrency(totalShorts)}
                 </div>
                 <div className="text-xs text-gray-500">{shortDominance}%</div>
               </div>
-              <div className="text-center flex-shrink-0">
-                <div className="text-xs lg:text-sm text-gray-400">Active</div>
-                <div className="text-lg lg:text-xl font-mono font-bold text-accent-blue stats-glow">
-                  {stats.activeLiquidations}
+              {statsSymbol ? (
+                <>
+                  <div className="text-center flex-shrink-0">
+                    <div className="text-xs lg:text-sm text-gray-400">Largest</div>
+                    <div className="text-lg lg:text-xl font-mono font-bold text-accent-yellow stats-glow">
+                      {formatCurrency(symbolWindow?.largest ?? 0)}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {(symbolWindow?.longCount ?? 0) + (symbolWindow?.shortCount ?? 0)} liqs
+                    </div>
+                  </div>
+                  <div className="text-center flex-shrink-0">
+                    <div className="text-xs lg:text-sm text-gray-400">Last Liq Price</div>
+                    <div className="text-lg lg:text-xl font-mono font-bold text-accent-blue stats-glow">
+                      {symbolWindow?.lastPrice != null ? formatPrice(symbolWindow.lastPrice) : '—'}
+                    </div>
+                  </div>
+                </>
+              ) : (
+                <div className="text-center flex-shrink-0">
+                  <div className="text-xs lg:text-sm text-gray-400">Active</div>
+                  <div className="text-lg lg:text-xl font-mono font-bold text-accent-blue stats-glow">
+                    {stats.activeLiquidations}
+                  </div>
                 </div>
-              </div>
+              )}
+
+              {/* Open Interest графика */}
+              {chartSymbol && openInterest && oiWindow && (
+                <>
+                  <div className="text-center flex-shrink-0 lg:border-l lg:border-cyber-border lg:pl-6">
+                    <div className="text-xs lg:text-sm text-gray-400">{chartSymbol} OI</div>
+                    <div className="text-lg lg:text-xl font-mono font-bold text-white">
+                      {openInterest.openInterestValue != null ? formatCurrency(openInterest.openInterestValue) : '—'}
+                    </div>
+                    <div className="text-xs text-gray-500" title={`Open interest change over ${statsWindow}`}>
+                      {oiWindow.oiChangePercent != null ? (
+                        <span className={oiWindow.oiChangePercent >= 0 ? 'text-short-green' : 'text-long-red'}>
+                          {formatSignedPercent(oiWindow.oiChangePercent)}
+                        </span>
+                      ) : '—'} {statsWindow}
+                    </div>
+                  </div>
+                  <div className="text-center flex-shrink-0">
+                    <div className="text-xs lg:text-sm text-gray-400">Liqs / OI ({statsWindow})</div>
+                    <div className="text-lg lg:text-xl font-mono font-bold text-accent-yellow">
+                      {oiWindow.liquidationsToOi != null ? formatOiShare(oiWindow.liquidationsToOi) : '—'}
+                    </div>
+                    <div className="text-xs text-gray-500">{formatCurrency(oiWindow.liquidations)}</div>
+                  </div>
+                  <div className="text-center flex-shrink-0">
+                    <div className="text-xs lg:text-sm text-gray-400">Funding</div>
+                    <div className={`text-lg lg:text-xl font-mono font-bold ${
+                      currentFunding == null ? 'text-gray-500' : currentFunding >= 0 ? 'text-short-green' : 'text-long-red'
+                    }`}>
+                      {currentFunding != null ? formatFundingRate(currentFunding) : '—'}
+                    </div>
+                    {openInterest.nextFundingTime != null && (
+                      <div className="text-xs text-gray-500">
+                        next {new Date(openInterest.nextFundingTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      </div>
+                    )}
+                  </div>
+                </>
+              )}
               
               {/* Timeframe Selector */}
               {timeframe && onTimeframeChange && (
                 <div className="flex items-center gap-1 lg:ml-6">
                   <span className="text-xs text-gray-400 font-mono mr-1 lg:mr-2">Chart:</span>
-                  {[
-                    { label: '1m', value: '1m' },
-                    { label: '5m', value: '5m' },
-                    { label: '15m', value: '15m' },
-                    { label: '30m', value: '30m' },
-                    { label: '1h', value: '1h' },
-                    { label: '4h', value: '4h' },
-                    { label: '1d', value: '1d' }
-                  ].map((tf) => (
+                  {KLINE_INTERVALS.map((tf) => (
                     <button
-                      key={tf.value}
-                      onClick={() => onTimeframeChange(tf.value)}
+                      key={tf}
+                      onClick={() => onTimeframeChange(tf)}
                       className={`
                         px-1.5 lg:px-2 py-1 text-xs font-mono rounded transition-all duration-200 min-h-[44px] lg:min-h-0 flex items-center
-                        ${timeframe === tf.value 
+                        ${timeframe === tf 
                           ? 'bg-accent-blue text-black font-bold' 
                           : 'text-gray-300 hover:text-white hover:bg-white/10'
                         }
                       `}
                     >
-                      {tf.label}
+                      {tf}
                     </button>
                   ))}
                 </div>
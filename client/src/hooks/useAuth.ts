@@ -0,0 +1,53 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import type { LoginCredentials, PublicUser, RegisterUser } from '@shared/schema';
+import { apiRequest, getQueryFn, queryClient } from '@/lib/queryClient';
+
+const ME_QUERY_KEY = ['/api/auth/me'];
+
+// Ответ /api/auth/me как есть; 401 — null (не вошел)
+type MeResponse = { success: boolean; data: PublicUser } | null;
+
+async function authRequest(url: string, data?: unknown): Promise<PublicUser | null> {
+  const res = await apiRequest('POST', url, data);
+  const body = await res.json();
+  return body.data ?? null;
+}
+
+// Текст ошибки для формы: apiRequest бросает "409: {"success":false,"error":"..."}"
+export function authErrorMessage(error: Error): string {
+  const text = error.message.replace(/^\d+: /, '');
+  try {
+    return JSON.parse(text).error || text;
+  } catch {
+    return text;
+  }
+}
+
+// 👤 Текущий пользователь (null — не вошел) и вход, регистрация, выход
+export function useAuth() {
+  const { data: user = null, isLoading } = useQuery({
+    queryKey: ME_QUERY_KEY,
+    queryFn: getQueryFn<MeResponse>({ on401: 'returnNull' }),
+    select: (body) => body?.data ?? null,
+  });
+
+  const setUser = (next: PublicUser | null) =>
+    queryClient.setQueryData<MeResponse>(ME_QUERY_KEY, next ? { success: true, data: next } : null);
+
+  const login = useMutation({
+    mutationFn: (credentials: LoginCredentials) => authRequest('/api/auth/login', credentials),
+    onSuccess: setUser,
+  });
+
+  const register = useMutation({
+    mutationFn: (credentials: RegisterUser) => authRequest('/api/auth/register', credentials),
+    onSuccess: setUser,
+  });
+
+  const logout = useMutation({
+    mutationFn: () => authRequest('/api/auth/logout'),
+    onSuccess: () => setUser(null),
+  });
+
+  return { user, isLoading, login, register, logout };
+}
@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { Liquidation } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { SubscribeLiquidations } from './useLiquidationStream';
+
+// Больше API за раз не отдает; на 60 свечей графика обычно хватает с запасом
+const HISTORY_LIMIT = 1000;
+// Живых держим не больше стольких последних (на мелком minValue за 4h свечи их много)
+const LIVE_LIMIT = 5000;
+
+// 🕯️ Ликвидации монеты графика за видимую историю свечей: с сервера + живой поток.
+// Живые копятся здесь же из всего потока (useLiquidationStream), а не из ленты в 20 последних,
+// и держатся, пока их свеча на графике. Тот же minValue — и для истории, и для живых.
+// from — начало первой свечи; undefined — свечей еще нет, ничего не грузим
+export function useChartLiquidations(
+  subscribeLiquidations: SubscribeLiquidations,
+  symbol: string,
+  from: number | undefined,
+  minValue = 0,
+) {
+  const { data: history } = useQuery({
+    queryKey: ['/api/liquidations', 'chart', symbol, from, minValue],
+    queryFn: async (): Promise<Liquidation[]> => {
+      const params = new URLSearchParams({ symbol, from: String(from), minValue: String(minValue), limit: String(HISTORY_LIMIT) });
+      const res = await apiRequest('GET', `/api/liquidations?${params}`);
+      const body = await res.json();
+      return body.data ?? [];
+    },
+    enabled: from !== undefined,
+    placeholderData: keepPreviousData, // Новая свеча сдвигает from — не мигаем пустым графиком
+    staleTime: Infinity, // Дальше история растет живым потоком
+  });
+
+  const [live, setLive] = useState<Liquidation[]>([]);
+
+  // Другая монета или порог — копим заново (история придет новым запросом)
+  useEffect(() => {
+    setLive([]);
+  }, [symbol, minValue]);
+
+  // Свечи ушли за левый край — их ликвидации больше не нужны
+  useEffect(() => {
+    if (from === undefined) return;
+    setLive(prev => prev.some(liq => liq.timestamp < from) ? prev.filter(liq => liq.timestamp >= from) : prev);
+  }, [from]);
+
+  const handleLiquidations = useCallback((liquidations: Liquidation[]) => {
+    const added = liquidations.filter(liq => liq.symbol === symbol && liq.value >= minValue);
+    if (added.length === 0) return;
+    setLive(prev => {
+      const known = new Set(prev.map(liq => liq.id));
+      const fresh = added.filter(liq => !known.has(liq.id));
+      return fresh.length > 0 ? [...prev, ...fresh].slice(-LIVE_LIMIT) : prev;
+    });
+  }, [symbol, minValue]);
+
+  useEffect(() => subscribeLiquidations(handleLiquidations), [subscribeLiquidations, handleLiquidations]);
+
+  // Старые сначала, без повторов (живые ликвидации могли попасть и в ответ API).
+  // Пока грузится новый запрос, history — от прошлого символа, порога или from: отсеиваем
+  return useMemo(() => {
+    if (from === undefined) return [];
+    const byId = new Map<string, Liquidation>();
+    for (const liq of [...(history ?? []), ...live]) {
+      if (liq.symbol === symbol && liq.timestamp >= from && liq.value >= minValue) byId.set(liq.id, liq);
+    }
+    return Array.from(byId.values()).sort((a, b) => a.timestamp - b.timestamp);
+  }, [history, live, symbol, from, minValue]);
+}
@@ -0,0 +1,194 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Liquidation } from '@shared/schema';
+import { LiquidationSubscription } from '@shared/wsProtocol';
+import { toast } from '@/hooks/use-toast';
+import { SubscribeLiquidations } from './useLiquidationStream';
+import { AlertSound, playAlertSound } from '../utils/AlertSounds';
+
+export type ClientAlertKind = 'whale' | 'burst';
+
+export interface ClientAlertSettings {
+  notifications: boolean; // Системные уведомления, когда вкладка в фоне
+  whale: { enabled: boolean; minValue: number; sound: AlertSound };
+  burst: { enabled: boolean; minCount: number; windowSeconds: number; sound: AlertSound };
+}
+
+export interface AlertHistoryEntry {
+  id: string;
+  kind: ClientAlertKind;
+  title: string;
+  description: string;
+  symbol: string;
+  side?: 'long' | 'short';
+  timestamp: number;
+}
+
+export const DEFAULT_ALERT_SETTINGS: ClientAlertSettings = {
+  notifications: false,
+  whale: { enabled: true, minValue: 1000000, sound: 'alarm' },
+  burst: { enabled: true, minCount: 10, windowSeconds: 10, sound: 'chime' },
+};
+
+const SETTINGS_KEY = 'liquidationAlerts.settings';
+const HISTORY_KEY = 'liquidationAlerts.history';
+const HISTORY_LIMIT = 200;
+// Досланные после переподключения и стартовые ликвидации старше этого не алертим
+const MAX_ALERT_AGE_MS = 60 * 1000;
+const MAX_SEEN_IDS = 500;
+
+function loadJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? { ...fallback, ...JSON.parse(raw) } : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function loadHistory(): AlertHistoryEntry[] {
+  try {
+    const raw = localStorage.getItem(HISTORY_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+function formatCurrency(amount: number) {
+  if (amount >= 1000000) return `$${(amount / 1000000).toFixed(2)}M`;
+  if (amount >= 1000) return `$${(amount / 1000).toFixed(0)}K`;
+  return `$${amount.toFixed(0)}`;
+}
+
+// Что алертам нужно от сервера: всплески считают все ликвидации любых монет, киты — от whale.minValue
+function alertSubscription({ whale, burst }: ClientAlertSettings): LiquidationSubscription | null {
+  if (burst.enabled) return {};
+  if (whale.enabled) return { minValue: whale.minValue };
+  return null;
+}
+
+// 🔔 Алерты по живому потоку: киты и всплески ликвидаций по монете. Слушают весь поток
+// (useLiquidationStream), а не ленту: та отфильтрована слайдером и обрезана до 20 последних.
+// Видимая вкладка — toast, фоновая — системное уведомление; история хранится в localStorage
+export function useLiquidationAlerts(subscribeLiquidations: SubscribeLiquidations) {
+  const [settings, setSettings] = useState<ClientAlertSettings>(() => loadJson(SETTINGS_KEY, DEFAULT_ALERT_SETTINGS));
+  const [history, setHistory] = useState<AlertHistoryEntry[]>(loadHistory);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission | 'unsupported'>(
+    () => typeof Notification === 'undefined' ? 'unsupported' : Notification.permission
+  );
+
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const seenIds = useRef(new Set<string>());
+  const burstWindows = useRef(new Map<string, number[]>()); // symbol -> время ликвидаций (биржевое)
+
+  useEffect(() => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  useEffect(() => {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+  }, [history]);
+
+  const raise = useCallback((entry: AlertHistoryEntry, sound: AlertSound) => {
+    setHistory(prev => [entry, ...prev].slice(0, HISTORY_LIMIT));
+    setUnreadCount(prev => prev + 1);
+    playAlertSound(sound);
+
+    if (document.hidden && settingsRef.current.notifications &&
+        typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+      new Notification(entry.title, { body: entry.description, tag: entry.id });
+    } else {
+      toast({
+        title: entry.title,
+        description: entry.description,
+        variant: entry.side === 'long' ? 'destructive' : 'default',
+      });
+    }
+  }, []);
+
+  const handleLiquidations = useCallback((liquidations: Liquidation[]) => {
+    const now = Date.now();
+    const { whale, burst } = settingsRef.current;
+
+    for (const liquidation of liquidations) {
+      if (seenIds.current.has(liquidation.id)) continue;
+      seenIds.current.add(liquidation.id);
+      if (now - liquidation.timestamp > MAX_ALERT_AGE_MS) continue;
+
+      const side = liquidation.side === 'long' ? 'long' : 'short';
+
+      if (whale.enabled && liquidation.value >= whale.minValue) {
+        raise({
+          id: `whale-${liquidation.id}`,
+          kind: 'whale',
+          title: `🐋 ${liquidation.symbol} ${side} liquidated`,
+          description: `${formatCurrency(liquidation.value)} @ ${liquidation.price} on ${liquidation.exchange}`,
+          symbol: liquidation.symbol,
+          side,
+          timestamp: now,
+        }, whale.sound);
+      }
+
+      // Окно — по времени самих ликвидаций: пачка после resync приходит разом, но растянута во времени
+      if (burst.enabled) {
+        const times = burstWindows.current.get(liquidation.symbol) ?? [];
+        const since = liquidation.timestamp - burst.windowSeconds * 1000;
+        const recent = [...times.filter(time => time > since), liquidation.timestamp];
+        if (recent.length >= burst.minCount) {
+          // Окно обнуляем, чтобы один всплеск не алертил на каждой следующей ликвидации
+          burstWindows.current.delete(liquidation.symbol);
+          raise({
+            id: `burst-${liquidation.symbol}-${liquidation.timestamp}`,
+            kind: 'burst',
+            title: `⚡ Burst on ${liquidation.symbol}`,
+            description: `${recent.length} liquidations in ${burst.windowSeconds}s`,
+            symbol: liquidation.symbol,
+            timestamp: now,
+          }, burst.sound);
+        } else {
+          burstWindows.current.set(liquidation.symbol, recent);
+        }
+      }
+    }
+
+    if (seenIds.current.size > MAX_SEEN_IDS) {
+      seenIds.current = new Set(Array.from(seenIds.current).slice(-(MAX_SEEN_IDS / 2)));
+    }
+  }, [raise]);
+
+  useEffect(() => subscribeLiquidations(handleLiquidations), [subscribeLiquidations, handleLiquidations]);
+
+  const updateSettings = useCallback((patch: Partial<ClientAlertSettings>) => {
+    setSettings(prev => ({ ...prev, ...patch }));
+  }, []);
+
+  const requestNotificationPermission = useCallback(async () => {
+    if (typeof Notification === 'undefined') return;
+    const permission = await Notification.requestPermission();
+    setNotificationPermission(permission);
+    if (permission === 'granted') {
+      setSettings(prev => ({ ...prev, notifications: true }));
+    }
+  }, []);
+
+  const markRead = useCallback(() => setUnreadCount(0), []);
+
+  const clearHistory = useCallback(() => {
+    setHistory([]);
+    setUnreadCount(0);
+  }, []);
+
+  return {
+    subscription: alertSubscription(settings),
+    settings,
+    updateSettings,
+    history,
+    unreadCount,
+    markRead,
+    clearHistory,
+    notificationPermission,
+    requestNotificationPermission,
+  };
+}
@@ -1,18 +1,53 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { Liquidation, MarketStats } from '@shared/schema';
+import { Cascade, KlineInterval, Liquidation, MarketStats, ReplayState, SymbolPrice, SymbolStats } from '@shared/schema';
+import { ClientMessage, FeedHello, FeedResync, KlineUpdate, LiquidationSubscription, matchesSubscription } from '@shared/wsProtocol';
+
+const LIVE_LIMIT = 20;
+
+// Добавляет ликвидации без дублей (живые и досланные после resync могут пересекаться)
+function mergeLiquidations(prev: Liquidation[], incoming: Liquidation[], limit: number): Liquidation[] {
+  const known = new Set(prev.map(liq => liq.id));
+  const added = incoming.filter(liq => !known.has(liq.id));
+  if (added.length === 0) return prev;
+  return [...prev, ...added]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .slice(-limit);
+}
+
+// Позиция в потоке: с нее просим досылку после переподключения
+interface FeedPosition {
+  instanceId: string | null;
+  seq: number;
+  timestamp: number;
+}
+
+// Слайдер минимальной суммы меняет фильтр непрерывно — не шлем subscribe на каждый шаг
+const SUBSCRIBE_DEBOUNCE_MS = 300;
+
+interface UseLiquidationDataOptions {
+  statsSymbol?: string | null;              // Монета для symbolStats (null — только весь рынок)
+  subscription?: LiquidationSubscription;   // Какие ликвидации присылать (по умолчанию все)
+  filter?: LiquidationSubscription;         // Какие из них держать в liquidations (по умолчанию — subscription)
+  onLiquidations?: (batch: Liquidation[]) => void; // 📡 Каждая пришедшая пачка — до filter и обрезки
+  priceSymbols?: string[];                  // 💰 Чьи mark price получать
+  klines?: { symbol: string; interval: KlineInterval } | null; // 🕯️ Чьи свечи получать
+}
 
 interface UseLiquidationDataReturn {
   liquidations: Liquidation[];
-  lastFiveLiquidations: Liquidation[];
   marketStats: MarketStats;
+  symbolStats: SymbolStats | null;
+  cascades: Cascade[]; // ⚡ Идущие сейчас каскады
+  prices: Record<string, SymbolPrice>;
+  lastKline: KlineUpdate | null; // 🕯️ Последнее обновление свечи выбранного символа/интервала
+  replay: ReplayState | null;    // ⏯️ Сервер воспроизводит запись (null — живые данные)
   isConnected: boolean;
   connectionError: string | null;
   reconnect: () => void;
 }
 
-export function useLiquidationData(): UseLiquidationDataReturn {
+export function useLiquidationData({ statsSymbol = null, subscription = {}, filter = subscription, onLiquidations, priceSymbols = [], klines = null }: UseLiquidationDataOptions = {}): UseLiquidationDataReturn {
   const [liquidations, setLiquidations] = useState<Liquidation[]>([]);
-  const [lastFiveLiquidations, setLastFiveLiquidations] = useState<Liquidation[]>([]);
   const [marketStats, setMarketStats] = useState<MarketStats>({
     totalLongs: 0,
     totalShorts: 0,
@@ -20,6 +55,11 @@ export function useLiquidationData(): UseLiquidationDataReturn {
     longShortRatio: { longs: 0, shorts: 0 },
     volumeHistory: [],
   });
+  const [symbolStats, setSymbolStats] = useState<SymbolStats | null>(null);
+  const [cascades, setCascades] = useState<Cascade[]>([]);
+  const [prices, setPrices] = useState<Record<string, SymbolPrice>>({});
+  const [lastKline, setLastKline] = useState<KlineUpdate | null>(null);
+  const [replay, setReplay] = useState<ReplayState | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [connectionError, setConnectionError] = useState<string | null>(null);
   
@@ -27,6 +67,45 @@ export function useLiquidationData(): UseLiquidationDataReturn {
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimerRef = useRef<number | null>(null);
   const isMountedRef = useRef(true);
+  const statsSymbolRef = useRef(statsSymbol);
+  statsSymbolRef.current = statsSymbol;
+  const subscriptionRef = useRef(subscription);
+  subscriptionRef.current = subscription;
+  const subscriptionKey = JSON.stringify(subscription);
+  const filterRef = useRef(filter);
+  filterRef.current = filter;
+  const onLiquidationsRef = useRef(onLiquidations);
+  onLiquidationsRef.current = onLiquidations;
+  const priceSymbolsRef = useRef(priceSymbols);
+  priceSymbolsRef.current = priceSymbols;
+  const priceSymbolsKey = priceSymbols.join(',');
+  const klinesRef = useRef(klines);
+  klinesRef.current = klines;
+  const klinesKey = klines ? `${klines.symbol}:${klines.interval}` : '';
+  const feedRef = useRef<FeedPosition>({ instanceId: null, seq: 0, timestamp: 0 });
+
+  const addLiquidations = useCallback((incoming: Liquidation[]) => {
+    const valid = incoming.filter(liq => liq && liq.symbol && liq.value > 0);
+    if (valid.length === 0) return;
+
+    for (const liq of valid) {
+      feedRef.current.timestamp = Math.max(feedRef.current.timestamp, liq.timestamp);
+    }
+    onLiquidationsRef.current?.(valid);
+    // В ленту — только подходящие под filter: подписка бывает шире (ее расширяют алерты и прочие слушатели)
+    const shown = valid.filter(liq => matchesSubscription(liq, filterRef.current));
+    // ✅ Ограничиваем 20 элементов (было 30)
+    if (shown.length > 0) {
+      setLiquidations(prev => mergeLiquidations(prev, shown, LIVE_LIMIT));
+    }
+  }, []);
+
+  const send = useCallback((message: ClientMessage) => {
+    const socket = wsRef.current;
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }, []);
 
   const connect = useCallback(() => {
     // Очищаем предыдущее соединение
@@ -45,6 +124,21 @@ export function useLiquidationData(): UseLiquidationDataReturn {
         console.log('🔌 Connected to liquidation feed');
         setIsConnected(true);
         setConnectionError(null);
+        // После переподключения сервер не помнит ни фильтр, ни выбранный символ
+        const subscribe: ClientMessage = { type: 'subscribe', filter: subscriptionRef.current };
+        socket.send(JSON.stringify(subscribe));
+        if (statsSymbolRef.current) {
+          const selectSymbol: ClientMessage = { type: 'selectSymbol', symbol: statsSymbolRef.current };
+          socket.send(JSON.stringify(selectSymbol));
+        }
+        if (priceSymbolsRef.current.length > 0) {
+          const watchPrices: ClientMessage = { type: 'watchPrices', symbols: priceSymbolsRef.current };
+          socket.send(JSON.stringify(watchPrices));
+        }
+        if (klinesRef.current) {
+          const watchKlines: ClientMessage = { type: 'watchKlines', ...klinesRef.current };
+          socket.send(JSON.stringify(watchKlines));
+        }
       };
 
       socket.onmessage = (event) => {
@@ -54,36 +148,96 @@ export function useLiquidationData(): UseLiquidationDataReturn {
           const message = JSON.parse(event.data);
           
           switch (message.type) {
+            case 'hello': {
+              // 🔁 Переподключение: просим досылку всего, что пришло после последнего seq
+              const feed = feedRef.current;
+              const hello: FeedHello = message.data;
+              if (feed.instanceId) {
+                const resume: ClientMessage = { type: 'resume', instanceId: feed.instanceId, seq: feed.seq, timestamp: feed.timestamp };
+                socket.send(JSON.stringify(resume));
+              }
+              if (feed.instanceId !== hello.instanceId) {
+                // Сервер перезапустился — старая нумерация недействительна
+                feed.seq = hello.seq;
+              }
+              feed.instanceId = hello.instanceId;
+              break;
+            }
+
             case 'liquidation':
-              const liquidation = message.data;
-              if (liquidation && liquidation.symbol && liquidation.value > 0) {
-                setLiquidations(prev => {
-                  // ✅ Ограничиваем 20 элементов (было 30)
-                  const updated = [...prev, liquidation];
-                  return updated.slice(-20);
-                });
-                
-                // Обновляем последние 5 ликвидаций ($50K+)
-                if (liquidation.value >= 50000) {
-                  setLastFiveLiquidations(prev => {
-                    const updated = [...prev, liquidation];
-                    return updated.slice(-5);
-                  });
-                }
+              if (typeof message.seq === 'number') {
+                feedRef.current.seq = Math.max(feedRef.current.seq, message.seq);
               }
+              addLiquidations([message.data]);
               break;
+
+            case 'resync': {
+              const resync: FeedResync = message.data;
+              feedRef.current.seq = Math.max(feedRef.current.seq, resync.seq);
+              addLiquidations(resync.liquidations);
+              if (!resync.complete) {
+                console.warn(`⚠️ Resync incomplete: restored ${resync.liquidations.length} liquidations, older ones were lost`);
+              } else if (resync.liquidations.length > 0) {
+                console.log(`🔁 Resync: restored ${resync.liquidations.length} missed liquidations`);
+              }
+              break;
+            }
               
             case 'marketStats':
               setMarketStats(message.data);
               break;
               
+            case 'symbolStats':
+              // Ответ мог прийти по предыдущему символу
+              if (message.data?.symbol === statsSymbolRef.current) {
+                setSymbolStats(message.data);
+              }
+              break;
+
+            case 'cascade': {
+              const cascade: Cascade = message.data;
+              setCascades(prev => {
+                const others = prev.filter(item => item.id !== cascade.id);
+                return cascade.status === 'active' ? [...others, cascade] : others;
+              });
+              break;
+            }
+
+            case 'prices': {
+              const updates: SymbolPrice[] = message.data || [];
+              setPrices(prev => {
+                const next = { ...prev };
+                updates.forEach(update => { next[update.symbol] = update; });
+                return next;
+              });
+              break;
+            }
+
+            // Обновления от прошлого символа/интервала могли еще лететь — отбрасываем
+            case 'kline': {
+              const update: KlineUpdate = message.data;
+              const watched = klinesRef.current;
+              if (watched && update.symbol === watched.symbol && update.interval === watched.interval) {
+                setLastKline(update);
+              }
+              break;
+            }
+
+            case 'replay':
+              setReplay(message.data);
+              break;
+
+            case 'error':
+              console.error('Liquidation feed rejected message:', message.error);
+              break;
+
             case 'recentLiquidations':
-              const recentLiqs = message.data || [];
-              setLiquidations(recentLiqs.slice(-20));
+              const recentLiqs: Liquidation[] = message.data || [];
+              onLiquidationsRef.current?.(recentLiqs);
+              setLiquidations(recentLiqs.filter(liq => matchesSubscription(liq, filterRef.current)).slice(-LIVE_LIMIT));
               
               if (recentLiqs.length > 0) {
-                const filtered50k = recentLiqs.filter((liq: Liquidation) => liq.value >= 50000);
-                setLastFiveLiquidations(filtered50k.slice(-5));
+                feedRef.current.timestamp = Math.max(feedRef.current.timestamp, ...recentLiqs.map(liq => liq.timestamp));
               }
               break;
           }
@@ -97,6 +251,8 @@ export function useLiquidationData(): UseLiquidationDataReturn {
         
         console.log('🔌 Disconnected, reconnecting...');
         setIsConnected(false);
+        // Идущие каскады сервер пришлет заново при подключении
+        setCascades([]);
         
         // ✅ Переподключение через 3 секунды
         if (reconnectTimerRef.current) {
@@ -130,7 +286,7 @@ export function useLiquidationData(): UseLiquidationDataReturn {
         }
       }, 5000);
     }
-  }, []);
+  }, [addLiquidations]);
 
   useEffect(() => {
     isMountedRef.current = true;
@@ -159,6 +315,32 @@ export function useLiquidationData(): UseLiquidationDataReturn {
     };
   }, [connect]);
 
+  // 🎯 Смена монеты для статистики
+  useEffect(() => {
+    setSymbolStats(null);
+    send({ type: 'selectSymbol', symbol: statsSymbol ?? '' });
+  }, [statsSymbol, send]);
+
+  // Смена фильтра: сервер ответит recentLiquidations уже под новый фильтр
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      send({ type: 'subscribe', filter: subscriptionRef.current });
+    }, SUBSCRIBE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [subscriptionKey, send]);
+
+  // 💰 Смена отслеживаемых цен
+  useEffect(() => {
+    send({ type: 'watchPrices', symbols: priceSymbolsRef.current });
+  }, [priceSymbolsKey, send]);
+
+  // 🕯️ Смена символа/интервала свечей
+  useEffect(() => {
+    setLastKline(null);
+    const watched = klinesRef.current;
+    send(watched ? { type: 'watchKlines', ...watched } : { type: 'unwatchKlines' });
+  }, [klinesKey, send]);
+
   const reconnect = useCallback(() => {
     if (wsRef.current) {
       wsRef.current.close();
@@ -170,8 +352,12 @@ export function useLiquidationData(): UseLiquidationDataReturn {
 
   return {
     liquidations,
-    lastFiveLiquidations,
     marketStats,
+    symbolStats,
+    cascades,
+    prices,
+    lastKline,
+    replay,
     isConnected,
     connectionError,
     reconnect,
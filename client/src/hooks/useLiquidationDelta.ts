@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query';
+import { DeltaWindow, LiquidationDelta, LiquidationDeltaPoint } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+
+export interface LiquidationDeltaData {
+  current: LiquidationDelta | null;
+  history: LiquidationDeltaPoint[]; // Старые сначала, шаг 5 минут
+}
+
+// Сервер пересчитывает корзины поминутно — чаще спрашивать незачем
+const REFRESH_INTERVAL = 60 * 1000;
+
+// 🔥 Liquidation Delta монеты (MARKET_SYMBOL — весь рынок) за выбранное окно
+export function useLiquidationDelta(symbol: string, window: DeltaWindow) {
+  return useQuery({
+    queryKey: ['/api/market/delta', symbol, window],
+    queryFn: async (): Promise<LiquidationDeltaData> => {
+      const res = await apiRequest('GET', `/api/market/delta/${encodeURIComponent(symbol)}?window=${window}`);
+      const body = await res.json();
+      return body.data;
+    },
+    refetchInterval: REFRESH_INTERVAL,
+    staleTime: REFRESH_INTERVAL,
+  });
+}
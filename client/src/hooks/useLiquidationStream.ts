@@ -0,0 +1,22 @@
+import { useState } from 'react';
+import { Liquidation } from '@shared/schema';
+
+export type LiquidationListener = (batch: Liquidation[]) => void;
+export type SubscribeLiquidations = (listener: LiquidationListener) => () => void;
+
+// 📡 Все ликвидации с сервера как пришли — до фильтра ленты и обрезки до LIVE_LIMIT в useLiquidationData.
+// Алерты, уровни китов и метки графика слушают его сами; повторы (resync, recentLiquidations) отсеивают по id
+export function useLiquidationStream() {
+  const [stream] = useState(() => {
+    const listeners = new Set<LiquidationListener>();
+    const subscribe: SubscribeLiquidations = (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    };
+    const emit = (batch: Liquidation[]) => listeners.forEach(listener => listener(batch));
+    return { subscribe, emit };
+  });
+  return stream;
+}
@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query';
+import { OpenInterestStats } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+
+// Сервер опрашивает OI раз в минуту; первый замер нового символа приходит через пару секунд
+const REFRESH_INTERVAL = 60 * 1000;
+const FIRST_SAMPLE_RETRY = 5 * 1000;
+
+// 📊 Открытый интерес монеты, его изменение и ликвидации за окна статистики
+export function useOpenInterest(symbol: string) {
+  return useQuery({
+    queryKey: ['/api/market/open-interest', symbol],
+    queryFn: async (): Promise<OpenInterestStats> => {
+      const res = await apiRequest('GET', `/api/market/open-interest/${encodeURIComponent(symbol)}`);
+      const body = await res.json();
+      return body.data;
+    },
+    refetchInterval: (query) => query.state.data?.openInterest == null ? FIRST_SAMPLE_RETRY : REFRESH_INTERVAL,
+    staleTime: REFRESH_INTERVAL,
+  });
+}
@@ -0,0 +1,121 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useQueries } from '@tanstack/react-query';
+import { Liquidation } from '@shared/schema';
+import { LiquidationSubscription } from '@shared/wsProtocol';
+import { apiRequest } from '@/lib/queryClient';
+import { DEFAULT_WHALE_TIERS, WhaleTier, normalizeTiers, tierIndexFor } from '@/lib/whaleTiers';
+import { SubscribeLiquidations } from './useLiquidationStream';
+
+export interface WhaleTierList {
+  tier: WhaleTier;
+  maxValue: number | null; // Верхняя граница (не включая); null — без ограничения
+  liquidations: Liquidation[]; // Новые сверху, не больше tier.depth
+}
+
+const TIERS_KEY = 'whaleTiers';
+const MAX_SEEN_IDS = 1000;
+
+function loadTiers(): WhaleTier[] {
+  try {
+    const raw = localStorage.getItem(TIERS_KEY);
+    const tiers = raw ? normalizeTiers(JSON.parse(raw)) : [];
+    return tiers.length > 0 ? tiers : DEFAULT_WHALE_TIERS;
+  } catch {
+    return DEFAULT_WHALE_TIERS;
+  }
+}
+
+function mergeNewestFirst(a: Liquidation[], b: Liquidation[], limit: number): Liquidation[] {
+  const byId = new Map<string, Liquidation>();
+  a.forEach(liq => byId.set(liq.id, liq));
+  b.forEach(liq => byId.set(liq.id, liq));
+  return Array.from(byId.values())
+    .sort((x, y) => y.timestamp - x.timestamp)
+    .slice(0, limit);
+}
+
+// 💎 Уровни крупных ликвидаций: история с сервера сразу после загрузки + живой поток сверху.
+// Поток — весь (useLiquidationStream), а не лента: слайдер ленты не должен отрезать нижние уровни.
+// Каждая ликвидация попадает только в свой уровень (от minValue до порога следующего)
+export function useWhaleTiers(subscribeLiquidations: SubscribeLiquidations, symbol: string | null = null) {
+  const [tiers, setTiersState] = useState<WhaleTier[]>(loadTiers);
+  const [live, setLive] = useState<Liquidation[][]>(() => tiers.map(() => []));
+
+  const seenIds = useRef(new Set<string>());
+
+  useEffect(() => {
+    localStorage.setItem(TIERS_KEY, JSON.stringify(tiers));
+  }, [tiers]);
+
+  // Границы поменялись — живые списки раскладываем заново из истории
+  useEffect(() => {
+    seenIds.current.clear();
+    setLive(tiers.map(() => []));
+  }, [tiers, symbol]);
+
+  const backfill = useQueries({
+    queries: tiers.map((tier, index) => {
+      const maxValue = tiers[index + 1]?.minValue;
+      return {
+        queryKey: ['/api/liquidations', 'tier', tier.minValue, maxValue ?? null, tier.depth, symbol],
+        queryFn: async (): Promise<Liquidation[]> => {
+          const params = new URLSearchParams({ minValue: String(tier.minValue), limit: String(tier.depth) });
+          // maxValue у API включительный — отступаем на цент, чтобы уровни не пересекались
+          if (maxValue !== undefined) params.set('maxValue', String(maxValue - 0.01));
+          if (symbol) params.set('symbol', symbol);
+          const res = await apiRequest('GET', `/api/liquidations?${params}`);
+          const body = await res.json();
+          return body.data ?? [];
+        },
+        staleTime: 60 * 1000,
+      };
+    }),
+  });
+
+  const handleLiquidations = useCallback((liquidations: Liquidation[]) => {
+    const incoming: Liquidation[][] = tiers.map(() => []);
+    let added = false;
+
+    for (const liquidation of liquidations) {
+      if (seenIds.current.has(liquidation.id)) continue;
+      seenIds.current.add(liquidation.id);
+      if (symbol && liquidation.symbol !== symbol) continue;
+
+      const index = tierIndexFor(liquidation.value, tiers);
+      if (index >= 0) {
+        incoming[index].push(liquidation);
+        added = true;
+      }
+    }
+
+    if (seenIds.current.size > MAX_SEEN_IDS) {
+      seenIds.current = new Set(Array.from(seenIds.current).slice(-(MAX_SEEN_IDS / 2)));
+    }
+    if (added) {
+      setLive(prev => tiers.map((tier, i) => mergeNewestFirst(prev[i] ?? [], incoming[i], tier.depth)));
+    }
+  }, [tiers, symbol]);
+
+  useEffect(() => subscribeLiquidations(handleLiquidations), [subscribeLiquidations, handleLiquidations]);
+
+  // Что уровням нужно от сервера: от порога нижнего уровня, по монете — если задана
+  const subscription: LiquidationSubscription = {
+    minValue: Math.min(...tiers.map(tier => tier.minValue)),
+    symbols: symbol ? [symbol] : undefined,
+  };
+
+  const lists: WhaleTierList[] = tiers.map((tier, index) => ({
+    tier,
+    maxValue: tiers[index + 1]?.minValue ?? null,
+    liquidations: mergeNewestFirst(backfill[index]?.data ?? [], live[index] ?? [], tier.depth),
+  }));
+
+  const setTiers = useCallback((next: WhaleTier[]) => {
+    const normalized = normalizeTiers(next);
+    setTiersState(normalized.length > 0 ? normalized : DEFAULT_WHALE_TIERS);
+  }, []);
+
+  const isLoading = backfill.some(query => query.isLoading);
+
+  return { tiers, setTiers, lists, isLoading, subscription };
+}
@@ -0,0 +1,32 @@
+import { DELTA_RATIO_CAP } from '@shared/schema';
+
+// Режим рынка по deltaRatio (ликвидации лонгов / шортов на 1% движения цены)
+export type DeltaRegime = 'long_squeeze' | 'short_squeeze' | 'balanced';
+
+export interface RegimeThresholds {
+  longSqueeze: number;  // deltaRatio не ниже — выносят лонги
+  shortSqueeze: number; // deltaRatio не выше — выносят шорты
+}
+
+export const DEFAULT_REGIME_THRESHOLDS: RegimeThresholds = {
+  longSqueeze: 2,
+  shortSqueeze: 0.5,
+};
+
+export const REGIME_META: Record<DeltaRegime, { label: string; className: string }> = {
+  long_squeeze: { label: 'Long squeeze', className: 'bg-red-500/20 text-red-400 border-red-500/40' },
+  short_squeeze: { label: 'Short squeeze', className: 'bg-green-500/20 text-green-400 border-green-500/40' },
+  balanced: { label: 'Balanced', className: 'bg-gray-700/40 text-gray-300 border-gray-600' },
+};
+
+// Потолок ratio (ликвидировали только лонги) — long squeeze при любом пороге
+export function classifyRegime(deltaRatio: number, thresholds: RegimeThresholds): DeltaRegime {
+  if (deltaRatio >= Math.min(thresholds.longSqueeze, DELTA_RATIO_CAP)) return 'long_squeeze';
+  if (deltaRatio <= thresholds.shortSqueeze) return 'short_squeeze';
+  return 'balanced';
+}
+
+// Пороги должны оставлять между собой зону balanced
+export function isValidThresholds(thresholds: RegimeThresholds): boolean {
+  return thresholds.shortSqueeze > 0 && thresholds.shortSqueeze < thresholds.longSqueeze;
+}
@@ -0,0 +1,22 @@
+// Подписи и цвета бирж-источников ликвидаций
+export interface ExchangeMeta {
+  name: string;
+  short: string;
+  color: string;
+}
+
+export const EXCHANGES: Record<string, ExchangeMeta> = {
+  binance: { name: 'Binance', short: 'BIN', color: '#F0B90B' },
+  bybit: { name: 'Bybit', short: 'BYB', color: '#F7A600' },
+  okx: { name: 'OKX', short: 'OKX', color: '#E5E7EB' },
+  // Только backstop-ликвидации (через HLP), рыночные в публичном потоке не видны — звездочка об этом
+  hyperliquid: { name: 'Hyperliquid (backstop liquidations only, totals understated)', short: 'HL*', color: '#97FCE4' },
+};
+
+export function getExchangeMeta(exchange: string): ExchangeMeta {
+  return EXCHANGES[exchange] ?? {
+    name: exchange,
+    short: exchange.slice(0, 3).toUpperCase(),
+    color: '#9CA3AF',
+  };
+}
@@ -0,0 +1,22 @@
+import { MarketContext } from '@shared/schema';
+
+// Доля ликвидации в открытом интересе символа, %; null — OI на момент ликвидации неизвестен
+export function shareOfOpenInterest(value: number, context?: MarketContext | null): number | null {
+  return context?.openInterestValue ? value / context.openInterestValue * 100 : null;
+}
+
+// Маленькие доли важнее всего различать: 0.004% и 0.04% — разные истории
+export function formatOiShare(percent: number): string {
+  if (percent >= 1) return `${percent.toFixed(1)}%`;
+  if (percent >= 0.01) return `${percent.toFixed(2)}%`;
+  return `${percent.toFixed(3)}%`;
+}
+
+// 0.0001 → "0.0100%" (как на биржах)
+export function formatFundingRate(rate: number): string {
+  return `${(rate * 100).toFixed(4)}%`;
+}
+
+export function formatSignedPercent(percent: number): string {
+  return `${percent >= 0 ? '+' : ''}${percent.toFixed(2)}%`;
+}
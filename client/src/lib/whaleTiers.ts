@@ -0,0 +1,39 @@
+// Уровни крупных ликвидаций для панели LiveStatsPanel
+export interface WhaleTier {
+  minValue: number; // Нижняя граница; верхняя — minValue следующего уровня
+  color: string;
+  depth: number;    // Сколько последних держать в списке
+}
+
+export const DEFAULT_WHALE_TIERS: WhaleTier[] = [
+  { minValue: 50000, color: '#60A5FA', depth: 10 },
+  { minValue: 250000, color: '#FBBF24', depth: 10 },
+  { minValue: 1000000, color: '#F472B6', depth: 10 },
+];
+
+export const MAX_TIER_DEPTH = 100;
+
+export function formatTierValue(value: number): string {
+  if (value >= 1000000) return `$${+(value / 1000000).toFixed(2)}M`;
+  if (value >= 1000) return `$${+(value / 1000).toFixed(1)}K`;
+  return `$${value}`;
+}
+
+// По возрастанию порога, без дублей
+export function normalizeTiers(tiers: WhaleTier[]): WhaleTier[] {
+  const byMin = new Map<number, WhaleTier>();
+  for (const tier of tiers) {
+    if (tier.minValue > 0) {
+      byMin.set(tier.minValue, { ...tier, depth: Math.min(MAX_TIER_DEPTH, Math.max(1, Math.round(tier.depth))) });
+    }
+  }
+  return Array.from(byMin.values()).sort((a, b) => a.minValue - b.minValue);
+}
+
+// Индекс уровня, в который попадает сумма, или -1 если ниже всех
+export function tierIndexFor(value: number, tiers: WhaleTier[]): number {
+  for (let i = tiers.length - 1; i >= 0; i--) {
+    if (value >= tiers[i].minValue) return i;
+  }
+  return -1;
+}
@@ -0,0 +1,100 @@
+import { FormEvent, useState } from 'react';
+import { Link, Redirect } from 'wouter';
+import { ArrowLeft } from 'lucide-react';
+import { loginSchema, registerUserSchema } from '@shared/schema';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { authErrorMessage, useAuth } from '@/hooks/useAuth';
+
+type AuthMode = 'login' | 'register';
+
+// 🔐 Вход и регистрация. Правила для имени и пароля — те же схемы, что на сервере
+export default function AuthPage() {
+  const { user, isLoading, login, register } = useAuth();
+  const [mode, setMode] = useState<AuthMode>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  if (user) return <Redirect to="/" />;
+
+  const pending = login.isPending || register.isPending;
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const parsed = (mode === 'login' ? loginSchema : registerUserSchema).safeParse({ username, password });
+    if (!parsed.success) {
+      setError(parsed.error.issues[0].message);
+      return;
+    }
+    setError(null);
+    (mode === 'login' ? login : register).mutate(parsed.data, {
+      onError: (e) => setError(authErrorMessage(e)),
+    });
+  };
+
+  const switchMode = (next: string) => {
+    setMode(next as AuthMode);
+    setError(null);
+  };
+
+  const form = (
+    <form onSubmit={handleSubmit} className="space-y-4 pt-4">
+      <div className="space-y-2">
+        <Label htmlFor="username" className="text-gray-400">Username</Label>
+        <Input
+          id="username"
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          className="bg-cyber-dark border-cyber-border text-white"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="password" className="text-gray-400">Password</Label>
+        <Input
+          id="password"
+          type="password"
+          autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="bg-cyber-dark border-cyber-border text-white"
+        />
+        {mode === 'register' && (
+          <p className="text-xs text-gray-500">At least 8 characters</p>
+        )}
+      </div>
+      {error && <div className="text-sm text-long-red">{error}</div>}
+      <button
+        type="submit"
+        disabled={pending || isLoading}
+        className="w-full py-2 rounded bg-accent-blue hover:bg-blue-600 disabled:opacity-50 text-white font-semibold transition-colors"
+      >
+        {pending ? 'Please wait…' : mode === 'login' ? 'Log in' : 'Create account'}
+      </button>
+    </form>
+  );
+
+  return (
+    <div className="min-h-screen bg-cyber-dark text-white font-sans flex items-center justify-center px-4">
+      <div className="w-full max-w-sm bg-cyber-gray border border-cyber-border rounded-lg p-6 shadow-lg">
+        <Link href="/" className="inline-flex items-center gap-1 text-xs text-gray-400 hover:text-white mb-4">
+          <ArrowLeft className="w-3 h-3" />
+          Back to dashboard
+        </Link>
+        <h1 className="text-2xl font-bold bg-gradient-to-r from-accent-blue to-accent-yellow bg-clip-text text-transparent mb-4">
+          CryptoLiquidations
+        </h1>
+        <Tabs value={mode} onValueChange={switchMode}>
+          <TabsList className="grid grid-cols-2 w-full bg-cyber-dark">
+            <TabsTrigger value="login">Log in</TabsTrigger>
+            <TabsTrigger value="register">Register</TabsTrigger>
+          </TabsList>
+          <TabsContent value="login">{form}</TabsContent>
+          <TabsContent value="register">{form}</TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+}
@@ -4,29 +4,83 @@ import { StatsHeader } from '../components/StatsHeader';
 import { LiveStatsPanel } from '../components/LiveStatsPanel';
 import { MarketSentiment } from '../components/MarketSentiment';
 import { SymbolSearch } from '../components/SymbolSearch';
+import { AlertCenter } from '../components/AlertCenter';
+import { ReplayBar } from '../components/ReplayBar';
+import { ExportAction } from '../components/ExportAction';
+import { AccountButton } from '../components/AccountButton';
 import { useLiquidationData } from '../hooks/useLiquidationData';
+import { useLiquidationStream } from '../hooks/useLiquidationStream';
+import { useLiquidationAlerts } from '../hooks/useLiquidationAlerts';
+import { useWhaleTiers } from '../hooks/useWhaleTiers';
+import { useOpenInterest } from '../hooks/useOpenInterest';
 import { Pause, Play, Settings, RefreshCw } from 'lucide-react';
+import { KlineInterval, StatsWindow } from '@shared/schema';
+import { LiquidationSubscription, mergeSubscriptions } from '@shared/wsProtocol';
 
 export default function LiquidationDashboard() {
   const [isPaused, setIsPaused] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [minLiquidationAmount, setMinLiquidationAmount] = useState(1); // Default $1 minimum
-  const [timeframe, setTimeframe] = useState('1m'); // Default 1-minute timeframe
+  const [timeframe, setTimeframe] = useState<KlineInterval>('1m'); // Default 1-minute timeframe
+  const [statsWindow, setStatsWindow] = useState<StatsWindow>('24h'); // Окно статистики в шапке
   const [chartSymbol, setChartSymbol] = useState('BTCUSDT'); // 🔥 НОВОЕ: Выбранный символ для графика
   const [filterBySymbol, setFilterBySymbol] = useState(false); // 🔥 НОВОЕ: Фильтровать ликвидации по символу графика
+  const [statsSymbol, setStatsSymbol] = useState<string | null>(null); // 🎯 Монета для статистики (null — весь рынок)
 
   const [chartOpacity, setChartOpacity] = useState(100); // Opacity in percentage
-  
+  const [showHeatmap, setShowHeatmap] = useState(true); // 🔥 Оценка уровней ликвидаций на графике
+  const [showMarkers, setShowMarkers] = useState(true); // 🎯 Ликвидации монеты на свечах
+
+  // 📡 Весь поток ликвидаций — для тех, кому мало ленты (20 последних под фильтром)
+  const liquidationStream = useLiquidationStream();
+
+  // 🔔 Алерты по живому потоку (киты, всплески) с историей в выдвижной панели
+  const alerts = useLiquidationAlerts(liquidationStream.subscribe);
+
+  // 💎 Уровни крупных ликвидаций ($50K / $250K / $1M по умолчанию), история подгружается с сервера
+  const whaleTiers = useWhaleTiers(liquidationStream.subscribe, filterBySymbol ? chartSymbol : null);
+
+  // Лента и мешки: слайдер минимальной суммы и, по желанию, только монета графика
+  const displayFilter: LiquidationSubscription = {
+    minValue: minLiquidationAmount,
+    symbols: filterBySymbol ? [chartSymbol] : undefined,
+  };
+
   const { 
     liquidations, 
-    lastFiveLiquidations, // 🔥 НОВОЕ: Последние 5 ликвидаций
-    marketStats, 
+    marketStats,
+    symbolStats,
+    cascades,
+    prices,
+    lastKline,
+    replay,
     isConnected, 
     connectionError,
     reconnect 
-  } = useLiquidationData();
+  } = useLiquidationData({
+    statsSymbol,
+    // Сервер присылает только то, что нужно ленте, алертам или уровням — не тащим на мобильный лишнего.
+    // Меткам на графике нужна монета графика от того же порога — это лента покрывает всегда
+    subscription: mergeSubscriptions([displayFilter, alerts.subscription, whaleTiers.subscription]),
+    filter: displayFilter,
+    onLiquidations: liquidationStream.emit,
+    // 💰 Mark price (и funding) символа графика
+    priceSymbols: [chartSymbol],
+    // 🕯️ Свечи фонового графика — один поток Binance на сервере для всех вкладок
+    klines: { symbol: chartSymbol, interval: timeframe },
+  });
+
+  // 📊 OI монеты графика — чтобы суммы ликвидаций было с чем сравнить
+  const { data: openInterest } = useOpenInterest(chartSymbol);
 
-  // Filter liquidations based on minimum amount AND symbol (if enabled)
+  // 🎯 Выбор монеты в поиске переключает и график, и статистику
+  const handleSymbolChange = (symbol: string) => {
+    setChartSymbol(symbol);
+    setStatsSymbol(symbol);
+  };
+
+  // Filter liquidations based on minimum amount AND symbol (if enabled).
+  // Сервер уже фильтрует, но до ответа на новый subscribe в буфере остаются старые
   const filteredLiquidations = liquidations.filter(liq => {
     const meetsMinAmount = liq.value >= minLiquidationAmount;
     const meetsSymbolFilter = !filterBySymbol || liq.symbol === chartSymbol;
@@ -61,6 +115,14 @@ export default function LiquidationDashboard() {
         isConnected={isConnected}
         timeframe={timeframe}
         onTimeframeChange={setTimeframe}
+        statsWindow={statsWindow}
+        onStatsWindowChange={setStatsWindow}
+        statsSymbol={statsSymbol}
+        symbolStats={symbolStats}
+        onClearStatsSymbol={() => setStatsSymbol(null)}
+        chartSymbol={chartSymbol}
+        openInterest={openInterest}
+        fundingRate={prices[chartSymbol]?.fundingRate}
       />
       
       {/* Main Layout with Sidebar - Mobile Responsive */}
@@ -71,24 +133,38 @@ export default function LiquidationDashboard() {
           <div className="absolute top-4 left-4 z-10">
             <SymbolSearch 
               selectedSymbol={chartSymbol}
-              onSymbolChange={setChartSymbol}
+              onSymbolChange={handleSymbolChange}
             />
           </div>
           
           <LiquidationCanvas 
             liquidations={filteredLiquidations}
+            subscribeLiquidations={liquidationStream.subscribe}
+            minValue={minLiquidationAmount}
             isPaused={isPaused}
             chartOpacity={chartOpacity}
             timeframe={timeframe}
             chartSymbol={chartSymbol}
+            cascades={cascades}
+            liveKline={lastKline}
+            showHeatmap={showHeatmap}
+            showMarkers={showMarkers}
           />
+
+          {/* ⏯️ Сервер воспроизводит записанную сессию */}
+          {replay && <ReplayBar state={replay} />}
         </div>
         
         {/* Right Sidebar - Mobile Responsive */}
         <div className="w-full lg:w-80 bg-cyber-gray/95 backdrop-blur-md border-t lg:border-t-0 lg:border-l border-cyber-border p-4 space-y-4 overflow-y-auto max-h-[40vh] lg:max-h-none">
           
           {/* 🔥 1. Market Sentiment (Liquidation Delta) - ВВЕРХУ */}
-          <MarketSentiment stats={marketStats} />
+          <MarketSentiment
+            stats={marketStats}
+            statsSymbol={statsSymbol}
+            symbolStats={symbolStats}
+            statsWindow={statsWindow}
+          />
           
           {/* 🔥 2. Liquidation Filter Panel - ПОСЕРЕДИНЕ */}
           <div className="bg-cyber-dark/50 rounded-lg border border-cyber-border p-4">
@@ -203,11 +279,18 @@ export default function LiquidationDashboard() {
                   $100K
                 </button>
               </div>
+
+              <ExportAction minValue={minLiquidationAmount} symbol={filterBySymbol ? chartSymbol : null} />
             </div>
           </div>
           
-          {/* 🔥 3. Recent Liquidations (Последние 5) - ВНИЗУ */}
-          <LiveStatsPanel recentLiquidations={lastFiveLiquidations} />
+          {/* 🔥 3. Крупные ликвидации по уровням - ВНИЗУ */}
+          <LiveStatsPanel
+            lists={whaleTiers.lists}
+            tiers={whaleTiers.tiers}
+            onTiersChange={whaleTiers.setTiers}
+            isLoading={whaleTiers.isLoading}
+          />
         </div>
       </div>
         
@@ -227,6 +310,17 @@ export default function LiquidationDashboard() {
       {/* Floating Action Controls */}
       <div className="fixed bottom-6 right-6 z-50">
         <div className="flex flex-col space-y-3">
+          <AccountButton />
+          <AlertCenter
+            settings={alerts.settings}
+            onSettingsChange={alerts.updateSettings}
+            history={alerts.history}
+            unreadCount={alerts.unreadCount}
+            onOpen={alerts.markRead}
+            onClearHistory={alerts.clearHistory}
+            notificationPermission={alerts.notificationPermission}
+            onRequestNotificationPermission={alerts.requestNotificationPermission}
+          />
           <button 
             onClick={handleToggleSettings}
             className="bg-cyber-gray hover:bg-gray-700 text-white p-3 rounded-full shadow-lg transition-all duration-200 hover:scale-110"
@@ -292,6 +386,32 @@ export default function LiquidationDashboard() {
                 </label>
               </div>
 
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="showHeatmap"
+                  checked={showHeatmap}
+                  onChange={(e) => setShowHeatmap(e.target.checked)}
+                  className="w-4 h-4 text-accent-blue bg-cyber-border border-gray-600 rounded focus:ring-accent-blue"
+                />
+                <label htmlFor="showHeatmap" className="text-sm text-gray-400">
+                  Estimated liquidation levels (10x–100x)
+                </label>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="showMarkers"
+                  checked={showMarkers}
+                  onChange={(e) => setShowMarkers(e.target.checked)}
+                  className="w-4 h-4 text-accent-blue bg-cyber-border border-gray-600 rounded focus:ring-accent-blue"
+                />
+                <label htmlFor="showMarkers" className="text-sm text-gray-400">
+                  {chartSymbol} liquidations on chart
+                </label>
+              </div>
+
 
 
               <div>
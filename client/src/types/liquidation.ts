@@ -8,6 +8,7 @@ export interface LiquidationBlock {
   rotation: number;
   rotationSpeed: number;
   coin: string;
+  exchange: string;
   isLong: boolean;
   amount: number;
   price: number;
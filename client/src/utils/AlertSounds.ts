@@ -0,0 +1,64 @@
+export const ALERT_SOUNDS = ['none', 'chime', 'alarm', 'blip'] as const;
+export type AlertSound = typeof ALERT_SOUNDS[number];
+
+let audioContext: AudioContext | null = null;
+
+function getAudioContext(): AudioContext | null {
+  if (!audioContext) {
+    try {
+      audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    } catch (error) {
+      console.log('Audio not supported');
+      return null;
+    }
+  }
+  // Resume context if suspended (browser autoplay policy)
+  if (audioContext.state === 'suspended') {
+    audioContext.resume();
+  }
+  return audioContext;
+}
+
+function tone(ctx: AudioContext, type: OscillatorType, frequency: number, start: number, duration: number, volume: number) {
+  const oscillator = ctx.createOscillator();
+  const gain = ctx.createGain();
+  oscillator.type = type;
+  oscillator.frequency.setValueAtTime(frequency, start);
+  gain.gain.setValueAtTime(volume, start);
+  gain.gain.exponentialRampToValueAtTime(0.001, start + duration);
+  oscillator.connect(gain);
+  gain.connect(ctx.destination);
+  oscillator.start(start);
+  oscillator.stop(start + duration);
+}
+
+/**
+ * Play a short synthesized alert sound
+ */
+export function playAlertSound(sound: AlertSound): void {
+  if (sound === 'none') return;
+  const ctx = getAudioContext();
+  if (!ctx) return;
+
+  try {
+    const now = ctx.currentTime;
+    switch (sound) {
+      case 'chime':
+        // Два восходящих колокольчика
+        tone(ctx, 'sine', 880, now, 0.4, 0.25);
+        tone(ctx, 'sine', 1320, now + 0.15, 0.5, 0.2);
+        break;
+      case 'alarm':
+        // Сирена из трех коротких гудков
+        for (let i = 0; i < 3; i++) {
+          tone(ctx, 'square', i % 2 === 0 ? 660 : 520, now + i * 0.18, 0.15, 0.12);
+        }
+        break;
+      case 'blip':
+        tone(ctx, 'triangle', 1200, now, 0.12, 0.25);
+        break;
+    }
+  } catch (error) {
+    console.log('Audio playback failed:', error);
+  }
+}
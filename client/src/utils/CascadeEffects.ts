@@ -0,0 +1,124 @@
+import { Cascade } from '@shared/schema';
+
+const LONG_COLOR = '239, 68, 68';   // long-red
+const SHORT_COLOR = '45, 212, 150'; // short-green
+const SHOCKWAVE_DURATION = 1500;
+const MAX_BANNERS = 3;
+
+function formatValue(value: number): string {
+  if (value >= 1000000) return `$${(value / 1000000).toFixed(2)}M`;
+  if (value >= 1000) return `$${(value / 1000).toFixed(0)}K`;
+  return `$${value.toFixed(0)}`;
+}
+
+function formatPrice(price: number): string {
+  return price >= 100 ? price.toFixed(0) : price.toPrecision(4);
+}
+
+/**
+ * Draw pulsing edge glow and banners for active cascades
+ */
+export function drawCascadeOverlay(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  cascades: Cascade[],
+  now: number
+): void {
+  if (cascades.length === 0) return;
+
+  // Крупнейший каскад задает цвет свечения краев
+  const strongest = cascades.reduce((max, cascade) => cascade.totalValue > max.totalValue ? cascade : max);
+  const color = strongest.side === 'long' ? LONG_COLOR : SHORT_COLOR;
+  const pulse = 0.5 + 0.5 * Math.sin(now * 0.006);
+  const glowSize = Math.min(width, height) * 0.12;
+
+  ctx.save();
+
+  const edges: [number, number, number, number, number, number, number, number][] = [
+    [0, 0, 0, glowSize, 0, 0, width, glowSize],                            // верх
+    [0, height, 0, height - glowSize, 0, height - glowSize, width, glowSize], // низ
+    [0, 0, glowSize, 0, 0, 0, glowSize, height],                           // лево
+    [width, 0, width - glowSize, 0, width - glowSize, 0, glowSize, height],  // право
+  ];
+  for (const [x0, y0, x1, y1, rx, ry, rw, rh] of edges) {
+    const gradient = ctx.createLinearGradient(x0, y0, x1, y1);
+    gradient.addColorStop(0, `rgba(${color}, ${0.25 + 0.3 * pulse})`);
+    gradient.addColorStop(1, `rgba(${color}, 0)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(rx, ry, rw, rh);
+  }
+
+  // Баннеры сверху по центру, крупные каскады первыми
+  const banners = [...cascades].sort((a, b) => b.totalValue - a.totalValue).slice(0, MAX_BANNERS);
+  ctx.font = 'bold 14px JetBrains Mono, monospace';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  banners.forEach((cascade, index) => {
+    const bannerColor = cascade.side === 'long' ? LONG_COLOR : SHORT_COLOR;
+    const sideLabel = cascade.side === 'long' ? 'LONGS' : 'SHORTS';
+    const priceRange = cascade.minPrice === cascade.maxPrice
+      ? formatPrice(cascade.minPrice)
+      : `${formatPrice(cascade.minPrice)}–${formatPrice(cascade.maxPrice)}`;
+    const text = `⚡ CASCADE ${cascade.symbol} · ${sideLabel} ${formatValue(cascade.totalValue)} · ${cascade.count} liqs · ${priceRange}`;
+
+    const textWidth = ctx.measureText(text).width;
+    const bannerWidth = textWidth + 32;
+    const bannerHeight = 30;
+    const x = width / 2 - bannerWidth / 2;
+    const y = 60 + index * (bannerHeight + 8);
+
+    ctx.globalAlpha = 0.85;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.beginPath();
+    ctx.roundRect(x, y, bannerWidth, bannerHeight, 6);
+    ctx.fill();
+
+    ctx.globalAlpha = 0.6 + 0.4 * pulse;
+    ctx.strokeStyle = `rgb(${bannerColor})`;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.roundRect(x, y, bannerWidth, bannerHeight, 6);
+    ctx.stroke();
+
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = `rgb(${bannerColor})`;
+    ctx.fillText(text, width / 2, y + bannerHeight / 2);
+  });
+
+  ctx.restore();
+}
+
+/**
+ * Draw expanding shockwave rings when a cascade starts.
+ * Returns false when the animation is over
+ */
+export function drawCascadeShockwave(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  side: Cascade['side'],
+  startedAt: number,
+  now: number
+): boolean {
+  const progress = (now - startedAt) / SHOCKWAVE_DURATION;
+  if (progress >= 1) return false;
+
+  const color = side === 'long' ? LONG_COLOR : SHORT_COLOR;
+  const maxRadius = Math.hypot(width, height) / 2;
+
+  ctx.save();
+  for (let ring = 0; ring < 3; ring++) {
+    const ringProgress = progress - ring * 0.15;
+    if (ringProgress <= 0) continue;
+    ctx.globalAlpha = Math.max(0, 1 - ringProgress) * 0.8;
+    ctx.strokeStyle = `rgb(${color})`;
+    ctx.lineWidth = 6 * (1 - ringProgress) + 1;
+    ctx.beginPath();
+    ctx.arc(width / 2, height / 2, ringProgress * maxRadius, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+  ctx.restore();
+  return true;
+}
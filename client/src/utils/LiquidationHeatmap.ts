@@ -0,0 +1,188 @@
+import { Liquidation } from '@shared/schema';
+
+const LONG_COLOR = '239, 68, 68';   // long-red
+const SHORT_COLOR = '45, 212, 150'; // short-green
+
+export interface HeatmapCandle {
+  timestamp: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number; // В монетах (как отдает Binance)
+}
+
+export interface LeverageTier {
+  leverage: number;
+  share: number; // Доля открытого объема с этим плечом
+}
+
+// Типичное распределение плеч на фьючерсах: чем выше плечо, тем меньше позиций
+export const LEVERAGE_TIERS: LeverageTier[] = [
+  { leverage: 10, share: 0.35 },
+  { leverage: 25, share: 0.3 },
+  { leverage: 50, share: 0.2 },
+  { leverage: 100, share: 0.15 },
+];
+
+const MAINTENANCE_MARGIN = 0.005;
+const DEFAULT_BINS = 80;
+
+export interface LiquidationHeatmap {
+  minPrice: number;
+  maxPrice: number;
+  longs: number[];  // Оценка лонгов, которые ликвидируются в каждой ценовой полосе (снизу вверх)
+  shorts: number[];
+  maxDensity: number;
+  // $ реальных ликвидаций на $ оценки по уже пройденным уровням; null — реальных ликвидаций не было,
+  // тогда значения полос — только относительная плотность
+  calibration: number | null;
+}
+
+// Цена ликвидации позиции, открытой по entry с плечом leverage (изолированная маржа)
+export function liquidationPrice(entry: number, leverage: number, side: 'long' | 'short'): number {
+  return side === 'long'
+    ? entry * (1 - 1 / leverage + MAINTENANCE_MARGIN)
+    : entry * (1 + 1 / leverage - MAINTENANCE_MARGIN);
+}
+
+/**
+ * Estimate where leveraged positions opened during the visible candles would be liquidated.
+ * Каждая свеча открывает позиции на свой объем по средней цене (H+L+C)/3, поровну в лонг и шорт,
+ * с плечами из LEVERAGE_TIERS. Уровень, через который цена уже прошла, считается выбитым.
+ * Реальные ликвидации за ту же историю калибруют масштаб: сколько $ на самом деле
+ * ликвидировалось на каждый $ оценки по выбитым уровням
+ */
+export function estimateLiquidationLevels(
+  candles: HeatmapCandle[],
+  realized: Liquidation[],
+  bins = DEFAULT_BINS
+): LiquidationHeatmap | null {
+  if (candles.length < 2) return null;
+
+  let minPrice = Infinity;
+  let maxPrice = -Infinity;
+  for (const candle of candles) {
+    minPrice = Math.min(minPrice, candle.low);
+    maxPrice = Math.max(maxPrice, candle.high);
+  }
+  const range = maxPrice - minPrice;
+  if (!(range > 0)) return null;
+
+  // Экстремумы после каждой свечи: дошла ли цена до уровня позже
+  const n = candles.length;
+  const lowAfter = new Array<number>(n);
+  const highAfter = new Array<number>(n);
+  let low = Infinity;
+  let high = -Infinity;
+  for (let i = n - 1; i >= 0; i--) {
+    lowAfter[i] = low;
+    highAfter[i] = high;
+    low = Math.min(low, candles[i].low);
+    high = Math.max(high, candles[i].high);
+  }
+
+  const longs = new Array<number>(bins).fill(0);
+  const shorts = new Array<number>(bins).fill(0);
+  const binOf = (price: number) => Math.floor((price - minPrice) / range * bins);
+  let crossed = 0;
+
+  candles.forEach((candle, i) => {
+    const entry = (candle.high + candle.low + candle.close) / 3;
+    const notional = candle.volume * entry / 2; // Половина — лонги, половина — шорты
+
+    for (const tier of LEVERAGE_TIERS) {
+      const size = notional * tier.share;
+
+      const longLevel = liquidationPrice(entry, tier.leverage, 'long');
+      if (lowAfter[i] <= longLevel) {
+        crossed += size;
+      } else {
+        const bin = binOf(longLevel);
+        if (bin >= 0 && bin < bins) longs[bin] += size;
+      }
+
+      const shortLevel = liquidationPrice(entry, tier.leverage, 'short');
+      if (highAfter[i] >= shortLevel) {
+        crossed += size;
+      } else {
+        const bin = binOf(shortLevel);
+        if (bin >= 0 && bin < bins) shorts[bin] += size;
+      }
+    }
+  });
+
+  const realizedTotal = realized.reduce((sum, liq) => sum + liq.value, 0);
+  const calibration = realizedTotal > 0 && crossed > 0 ? realizedTotal / crossed : null;
+  if (calibration !== null) {
+    for (let i = 0; i < bins; i++) {
+      longs[i] *= calibration;
+      shorts[i] *= calibration;
+    }
+  }
+
+  return {
+    minPrice,
+    maxPrice,
+    longs,
+    shorts,
+    maxDensity: Math.max(...longs, ...shorts),
+    calibration,
+  };
+}
+
+function formatValue(value: number): string {
+  if (value >= 1000000) return `$${(value / 1000000).toFixed(1)}M`;
+  if (value >= 1000) return `$${(value / 1000).toFixed(0)}K`;
+  return `$${value.toFixed(0)}`;
+}
+
+/**
+ * Draw the heatmap as horizontal bands behind the candles.
+ * Шкала цены та же, что у свечей: top/chartHeight — поля графика
+ */
+export function drawLiquidationHeatmap(
+  ctx: CanvasRenderingContext2D,
+  heatmap: LiquidationHeatmap,
+  chartWidth: number,
+  top: number,
+  chartHeight: number,
+  opacity: number
+): void {
+  if (heatmap.maxDensity <= 0) return;
+
+  const bins = heatmap.longs.length;
+  const bandHeight = chartHeight / bins;
+
+  ctx.save();
+
+  for (let i = 0; i < bins; i++) {
+    // Полоса 0 — нижняя
+    const y = top + chartHeight - (i + 1) * bandHeight;
+    for (const [density, color] of [[heatmap.longs[i], LONG_COLOR], [heatmap.shorts[i], SHORT_COLOR]] as const) {
+      if (density <= 0) continue;
+      // Корень — чтобы слабые кластеры не терялись рядом с одним мощным
+      const intensity = Math.sqrt(density / heatmap.maxDensity);
+      ctx.fillStyle = `rgba(${color}, ${(0.04 + 0.4 * intensity) * opacity})`;
+      ctx.fillRect(0, y, chartWidth, Math.ceil(bandHeight));
+    }
+  }
+
+  // Подпись самого плотного кластера с каждой стороны — у шкалы цены
+  if (heatmap.calibration !== null) {
+    ctx.font = '10px JetBrains Mono, monospace';
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'middle';
+    for (const [densities, color, label] of [[heatmap.longs, LONG_COLOR, 'longs'], [heatmap.shorts, SHORT_COLOR, 'shorts']] as const) {
+      let peak = 0;
+      for (let i = 1; i < bins; i++) {
+        if (densities[i] > densities[peak]) peak = i;
+      }
+      if (densities[peak] <= 0) continue;
+      const y = top + chartHeight - (peak + 0.5) * bandHeight;
+      ctx.fillStyle = `rgba(${color}, ${0.9 * opacity})`;
+      ctx.fillText(`≈${formatValue(densities[peak])} ${label}`, chartWidth - 16, y);
+    }
+  }
+
+  ctx.restore();
+}
@@ -0,0 +1,124 @@
+import { Liquidation } from '@shared/schema';
+
+const LONG_COLOR = '239, 68, 68';   // long-red
+const SHORT_COLOR = '45, 212, 150'; // short-green
+
+// Больше меток на фоне — каша; оставляем крупнейшие
+const MAX_MARKERS = 400;
+const MIN_RADIUS = 3;
+const MAX_RADIUS = 16;
+const LETTER_RADIUS = 8; // С такого размера в метке помещается L/S
+
+export interface ChartMarker {
+  liquidation: Liquidation;
+  x: number;
+  y: number;
+  radius: number;
+}
+
+export interface MarkerLayout {
+  candleTimes: number[]; // Начала свечей по возрастанию
+  intervalMs: number;
+  chartWidth: number;
+  top: number;
+  chartHeight: number;
+  minPrice: number;
+  maxPrice: number;
+}
+
+// $1K → 3px, $100K → 8px, $10M → 13px: логарифм, иначе киты закрывают весь график
+export function markerRadius(value: number): number {
+  const radius = MIN_RADIUS + 2.5 * Math.log10(Math.max(value, 1000) / 1000);
+  return Math.min(MAX_RADIUS, radius);
+}
+
+/**
+ * Place liquidations at their candle (with the offset inside it) and price.
+ * Ликвидации раньше первой свечи не показываем; мелкие идут первыми — крупные рисуются поверх
+ */
+export function layoutLiquidationMarkers(liquidations: Liquidation[], layout: MarkerLayout): ChartMarker[] {
+  const { candleTimes, intervalMs, chartWidth, top, chartHeight, minPrice, maxPrice } = layout;
+  const priceRange = maxPrice - minPrice;
+  if (candleTimes.length === 0 || !(priceRange > 0)) return [];
+
+  const candleSpacing = chartWidth / candleTimes.length;
+  const visible = liquidations.filter(liq => liq.timestamp >= candleTimes[0]);
+  const largest = visible.length > MAX_MARKERS
+    ? visible.slice().sort((a, b) => b.value - a.value).slice(0, MAX_MARKERS)
+    : visible;
+
+  return largest
+    .map(liquidation => {
+      const index = candleIndexAt(candleTimes, liquidation.timestamp);
+      const offset = Math.min(1, (liquidation.timestamp - candleTimes[index]) / intervalMs);
+      const price = Math.min(maxPrice, Math.max(minPrice, liquidation.price));
+      return {
+        liquidation,
+        x: (index + offset) * candleSpacing,
+        y: top + ((maxPrice - price) / priceRange) * chartHeight,
+        radius: markerRadius(liquidation.value),
+      };
+    })
+    .sort((a, b) => a.liquidation.value - b.liquidation.value);
+}
+
+// Последняя свеча, начавшаяся не позже time
+function candleIndexAt(candleTimes: number[], time: number): number {
+  let lo = 0;
+  let hi = candleTimes.length - 1;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (candleTimes[mid] <= time) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+/**
+ * Draw markers over the candles; the hovered one gets an outline
+ */
+export function drawLiquidationMarkers(
+  ctx: CanvasRenderingContext2D,
+  markers: ChartMarker[],
+  opacity: number,
+  hoveredId: string | null
+): void {
+  if (markers.length === 0) return;
+
+  ctx.save();
+  ctx.globalAlpha = 1; // Прозрачность графика уже в opacity
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  for (const { liquidation, x, y, radius } of markers) {
+    const color = liquidation.side === 'long' ? LONG_COLOR : SHORT_COLOR;
+    const isHovered = liquidation.id === hoveredId;
+
+    ctx.fillStyle = `rgba(${color}, ${(isHovered ? 0.9 : 0.55) * opacity})`;
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fill();
+
+    ctx.strokeStyle = isHovered ? `rgba(255, 255, 255, ${opacity})` : `rgba(${color}, ${opacity})`;
+    ctx.lineWidth = isHovered ? 2 : 1;
+    ctx.stroke();
+
+    if (radius >= LETTER_RADIUS) {
+      ctx.fillStyle = `rgba(255, 255, 255, ${0.9 * opacity})`;
+      ctx.font = `bold ${Math.round(radius)}px JetBrains Mono, monospace`;
+      ctx.fillText(liquidation.side === 'long' ? 'L' : 'S', x, y + 1);
+    }
+  }
+
+  ctx.restore();
+}
+
+// Верхняя (последней нарисованная) метка под курсором
+export function findMarkerAt(markers: ChartMarker[], x: number, y: number): ChartMarker | null {
+  for (let i = markers.length - 1; i >= 0; i--) {
+    const marker = markers[i];
+    const hitRadius = Math.max(marker.radius, 6); // Мелкие метки трудно поймать мышью
+    if ((x - marker.x) ** 2 + (y - marker.y) ** 2 <= hitRadius ** 2) return marker;
+  }
+  return null;
+}
@@ -0,0 +1,176 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { fromZodError } from "zod-validation-error";
+import { loginSchema, registerUserSchema, type PublicUser, type User as StoredUser } from "@shared/schema";
+import { pool } from "./db";
+import { storage as defaultStorage, type IStorage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface User extends StoredUser {}
+  }
+}
+
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60 * 1000; // Вход живет 30 дней
+const MEMORY_STORE_CHECK_PERIOD = 24 * 60 * 60 * 1000;
+const KEY_LENGTH = 64;
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+// 🔑 Пароль хранится как "<hex-ключ scrypt>.<соль>"
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${key.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function toPublicUser({ password, ...user }: StoredUser): PublicUser {
+  return user;
+}
+
+// Сессии — в PostgreSQL рядом с пользователями (таблица session), без DATABASE_URL — в памяти до перезапуска
+function createSessionStore(): session.Store {
+  if (pool) {
+    const PgStore = connectPg(session);
+    return new PgStore({ pool, createTableIfMissing: true });
+  }
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: MEMORY_STORE_CHECK_PERIOD });
+}
+
+// В разработке без SESSION_SECRET секрет случайный (после перезапуска всем придется войти заново),
+// в production без него сервер не стартует
+function sessionSecret(env = process.env): string {
+  if (env.SESSION_SECRET) return env.SESSION_SECRET;
+  if (env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET is required in production");
+  }
+  return randomBytes(32).toString("hex");
+}
+
+// Имя уже занято: unique_violation PostgreSQL (MemStorage бросает такой же код)
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === "23505";
+}
+
+// 🔒 Маршруты только для вошедших: остальным 401
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ success: false, error: 'Not authenticated' });
+  }
+  next();
+}
+
+function logIn(req: Request, user: StoredUser): Promise<void> {
+  return new Promise((resolve, reject) => req.login(user, (error) => (error ? reject(error) : resolve())));
+}
+
+// 🔐 Учетные записи и вход по сессии (cookie). Пользователи — всегда в основном хранилище:
+// в replay/simulated память режима хранит только ликвидации, аккаунты от режима не зависят
+export function setupAuth(app: Express, users: IStorage = defaultStorage) {
+  // За прокси (Render) cookie с secure: "auto" ставится только по https
+  app.set("trust proxy", 1);
+  app.use("/api", session({
+    store: createSessionStore(),
+    secret: sessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    cookie: { httpOnly: true, sameSite: "lax", secure: "auto", maxAge: SESSION_MAX_AGE },
+  }));
+  app.use("/api", passport.initialize(), passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await users.getUserByUsername(username.trim());
+      if (!user || !(await verifyPassword(password, user.password))) {
+        return done(null, false);
+      }
+      done(null, user);
+    } catch (error) {
+      done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      // Удаленный пользователь — просто не вошедший
+      done(null, (await users.getUser(id)) ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post('/api/auth/register', async (req, res) => {
+    const parsed = registerUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      // Занятость имени проверяет сама вставка: отдельная проверка перед ней не спасает от двух регистраций сразу
+      const { username, password } = parsed.data;
+      const user = await users.createUser({ username, password: await hashPassword(password) });
+      await logIn(req, user);
+      res.status(201).json({ success: true, data: toPublicUser(user) });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ success: false, error: 'Username is already taken' });
+      }
+      console.error('Error registering user:', error);
+      res.status(500).json({ success: false, error: 'Failed to register' });
+    }
+  });
+
+  app.post('/api/auth/login', (req, res) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: fromZodError(parsed.error).toString() });
+    }
+
+    passport.authenticate('local', async (error: unknown, user: StoredUser | false) => {
+      try {
+        if (error) throw error;
+        if (!user) {
+          return res.status(401).json({ success: false, error: 'Invalid username or password' });
+        }
+        await logIn(req, user);
+        res.json({ success: true, data: toPublicUser(user) });
+      } catch (loginError) {
+        console.error('Error logging in:', loginError);
+        res.status(500).json({ success: false, error: 'Failed to log in' });
+      }
+    })(req, res);
+  });
+
+  app.post('/api/auth/logout', (req, res) => {
+    req.logout((error) => {
+      if (error) {
+        console.error('Error logging out:', error);
+        return res.status(500).json({ success: false, error: 'Failed to log out' });
+      }
+      res.json({ success: true });
+    });
+  });
+
+  app.get('/api/auth/me', (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ success: false, error: 'Not authenticated' });
+    }
+    res.json({ success: true, data: toPublicUser(req.user) });
+  });
+}
@@ -1,19 +1,33 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer } from "ws";
+import { fromZodError } from "zod-validation-error";
+import { cascadeQuerySchema, insertAlertRuleSchema, klineQuerySchema, liquidationBarsQuerySchema, liquidationDeltaQuerySchema, liquidationExportQuerySchema, liquidationQuerySchema, priceQuerySchema, replayControlSchema, symbolParamSchema, updateAlertRuleSchema } from "@shared/schema";
 import { LiquidationService } from "./services/liquidationService";
+import { AlertEngine } from "./services/alertEngine";
+import { WebhookDelivery, WebhookUrlError, webhookOptionsFromEnv } from "./services/webhookDelivery";
+import { InvalidCursorError, queryLiquidationPage } from "./services/liquidationQuery";
+import { streamLiquidationExport } from "./services/liquidationExport";
+import { UnknownKlineSymbolError } from "./services/klineService";
+import { createLiquidationMode } from "./services/liquidationMode";
+import { requireAuth, setupAuth } from "./auth";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
 
+  // Сессии и /api/auth/* — до остальных маршрутов, чтобы req.user был виден везде
+  setupAuth(app);
+
   // Create WebSocket server on /ws path
   const wss = new WebSocketServer({ 
     server: httpServer, 
     path: '/ws'
   });
 
-  // Initialize liquidation service
-  const liquidationService = new LiquidationService(wss);
+  // Initialize liquidation service (live или воспроизведение записи — LIQUIDATION_MODE)
+  const { mode, storage, options } = createLiquidationMode();
+  const alerts = new AlertEngine(storage, new WebhookDelivery(webhookOptionsFromEnv()));
+  const liquidationService = new LiquidationService(wss, { ...options, storage, alerts });
 
   // REST API endpoints
   app.get('/api/liquidations/recent', (req, res) => {
@@ -26,6 +40,152 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // История ликвидаций из хранилища с фильтрами и курсорной пагинацией
+  app.get('/api/liquidations', async (req, res) => {
+    const parsed = liquidationQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const page = await queryLiquidationPage(storage, parsed.data);
+      res.json({ success: true, data: page.data, nextCursor: page.nextCursor });
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+      console.error('Error querying liquidations:', error);
+      res.status(500).json({ success: false, error: 'Failed to query liquidations' });
+    }
+  });
+
+  // Выгрузка истории файлом (csv, ndjson, parquet) с теми же фильтрами
+  app.get('/api/liquidations/export', async (req, res) => {
+    const parsed = liquidationExportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      await streamLiquidationExport(storage, parsed.data, res);
+    } catch (error) {
+      console.error('Error exporting liquidations:', error);
+      // Файл уже начал уходить — JSON не отправить, обрываем, чтобы клиент не принял обрезок за целое
+      if (res.headersSent) return res.destroy();
+      res.status(500).json({ success: false, error: 'Failed to export liquidations' });
+    }
+  });
+
+  // Свечи ликвидаций (symbol=ALL — весь рынок)
+  app.get('/api/liquidations/bars', (req, res) => {
+    const parsed = liquidationBarsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: fromZodError(parsed.error).toString() });
+    }
+
+    const { symbol, interval, ...range } = parsed.data;
+    const bars = liquidationService.getLiquidationBars(symbol, interval, range);
+    res.json({ success: true, data: bars });
+  });
+
+  // Каскады ликвидаций (идущие и завершенные), новые сверху
+  app.get('/api/cascades', async (req, res) => {
+    const parsed = cascadeQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const cascades = await storage.getCascades(parsed.data);
+      res.json({ success: true, data: cascades });
+    } catch (error) {
+      console.error('Error querying cascades:', error);
+      res.status(500).json({ success: false, error: 'Failed to query cascades' });
+    }
+  });
+
+  // Правила алертов с доставкой на вебхуки — только для вошедших: сервер шлет POST на адрес из правила
+  app.use('/api/alerts', requireAuth);
+
+  app.get('/api/alerts/rules', (req, res) => {
+    res.json({ success: true, data: alerts.listRules() });
+  });
+
+  app.get('/api/alerts/rules/:id', (req, res) => {
+    const rule = alerts.getRule(req.params.id);
+    if (!rule) {
+      return res.status(404).json({ success: false, error: 'Alert rule not found' });
+    }
+    res.json({ success: true, data: rule });
+  });
+
+  app.post('/api/alerts/rules', async (req, res) => {
+    const parsed = insertAlertRuleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const rule = await alerts.createRule(parsed.data);
+      res.status(201).json({ success: true, data: rule });
+    } catch (error) {
+      if (error instanceof WebhookUrlError) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+      console.error('Error creating alert rule:', error);
+      res.status(500).json({ success: false, error: 'Failed to create alert rule' });
+    }
+  });
+
+  app.patch('/api/alerts/rules/:id', async (req, res) => {
+    const parsed = updateAlertRuleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const rule = await alerts.updateRule(req.params.id, parsed.data);
+      if (!rule) {
+        return res.status(404).json({ success: false, error: 'Alert rule not found' });
+      }
+      res.json({ success: true, data: rule });
+    } catch (error) {
+      if (error instanceof WebhookUrlError) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+      console.error('Error updating alert rule:', error);
+      res.status(500).json({ success: false, error: 'Failed to update alert rule' });
+    }
+  });
+
+  app.delete('/api/alerts/rules/:id', async (req, res) => {
+    try {
+      const deleted = await alerts.deleteRule(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ success: false, error: 'Alert rule not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting alert rule:', error);
+      res.status(500).json({ success: false, error: 'Failed to delete alert rule' });
+    }
+  });
+
+  // Проверочная доставка на вебхук правила
+  app.post('/api/alerts/rules/:id/test', (req, res) => {
+    const rule = alerts.getRule(req.params.id);
+    if (!rule) {
+      return res.status(404).json({ success: false, error: 'Alert rule not found' });
+    }
+    res.status(202).json({ success: true, data: alerts.testRule(rule) });
+  });
+
+  // Последние доставки (?ruleId= — по одному правилу)
+  app.get('/api/alerts/deliveries', (req, res) => {
+    const ruleId = typeof req.query.ruleId === 'string' ? req.query.ruleId : undefined;
+    res.json({ success: true, data: alerts.getDeliveries(ruleId) });
+  });
+
   app.get('/api/market/stats', (req, res) => {
     try {
       const stats = liquidationService.getMarketStats();
@@ -36,11 +196,119 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/market/stats/:symbol', async (req, res) => {
+    try {
+      const stats = await liquidationService.getSymbolStats(req.params.symbol.toUpperCase());
+      res.json({ success: true, data: stats });
+    } catch (error) {
+      console.error('Error fetching symbol stats:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch symbol stats' });
+    }
+  });
+
+  // 🔥 Liquidation Delta монеты (ALL — весь рынок): текущее значение и история
+  app.get('/api/market/delta/:symbol', (req, res) => {
+    const parsed = liquidationDeltaQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: fromZodError(parsed.error).toString() });
+    }
+
+    const { window, hours } = parsed.data;
+    const delta = liquidationService.getLiquidationDelta(req.params.symbol.toUpperCase(), window, hours);
+    res.json({ success: true, data: delta });
+  });
+
+  // 📊 Открытый интерес и funding монеты рядом с ее ликвидациями за окна 1h/4h/24h
+  app.get('/api/market/open-interest/:symbol', (req, res) => {
+    const parsed = symbolParamSchema.safeParse(req.params.symbol);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: fromZodError(parsed.error).toString() });
+    }
+    if (!liquidationService.isKnownSymbol(parsed.data)) {
+      return res.status(404).json({ success: false, error: `Unknown symbol: ${parsed.data}` });
+    }
+
+    const stats = liquidationService.getOpenInterestStats(parsed.data);
+    res.json({ success: true, data: stats });
+  });
+
+  // 💰 Последние mark price из ценового потока
+  app.get('/api/prices', (req, res) => {
+    const parsed = priceQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: fromZodError(parsed.error).toString() });
+    }
+
+    res.json({ success: true, data: liquidationService.getPrices(parsed.data.symbols) });
+  });
+
+  app.get('/api/prices/:symbol', (req, res) => {
+    const price = liquidationService.getPrice(req.params.symbol.toUpperCase());
+    if (!price) {
+      return res.status(404).json({ success: false, error: 'No price for this symbol yet' });
+    }
+    res.json({ success: true, data: price });
+  });
+
+  // 🕯️ Свечи Binance через общий кэш сервера (обновления — сообщениями kline по /ws)
+  app.get('/api/klines/:symbol', async (req, res) => {
+    const parsed = klineQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: fromZodError(parsed.error).toString() });
+    }
+    const symbol = symbolParamSchema.safeParse(req.params.symbol);
+    if (!symbol.success) {
+      return res.status(400).json({ success: false, error: fromZodError(symbol.error).toString() });
+    }
+
+    try {
+      const { interval, limit } = parsed.data;
+      const klines = await liquidationService.getKlines(symbol.data, interval, limit);
+      res.json({ success: true, data: klines });
+    } catch (error) {
+      if (error instanceof UnknownKlineSymbolError) {
+        return res.status(404).json({ success: false, error: error.message });
+      }
+      console.error('Error fetching klines:', error);
+      res.status(502).json({ success: false, error: 'Kline source unavailable' });
+    }
+  });
+
+  // ⏯️ Воспроизведение записанной сессии (только LIQUIDATION_MODE=replay)
+  app.get('/api/replay', (req, res) => {
+    const state = liquidationService.getReplayState();
+    if (!state) {
+      return res.status(404).json({ success: false, error: 'Replay mode is off' });
+    }
+    res.json({ success: true, data: state });
+  });
+
+  // Пауза, перемотка и скорость: { playing?, position?, speed? }
+  app.post('/api/replay', (req, res) => {
+    const parsed = replayControlSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: fromZodError(parsed.error).toString() });
+    }
+
+    const state = liquidationService.controlReplay(parsed.data);
+    if (!state) {
+      return res.status(404).json({ success: false, error: 'Replay mode is off' });
+    }
+    res.json({ success: true, data: state });
+  });
+
   app.get('/api/health', (req, res) => {
     res.json({ 
       success: true, 
       message: 'Liquidation service is running',
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      mode,
+      sources: liquidationService.getAdapterHealth(),
+      priceFeed: liquidationService.getPriceFeedHealth(),
+      openInterest: liquidationService.getOpenInterestHealth(),
+      klines: liquidationService.getKlineHealth(),
+      recorder: liquidationService.getRecorderHealth(),
+      replay: liquidationService.getReplayState()
     });
   });
 
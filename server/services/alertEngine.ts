@@ -0,0 +1,176 @@
+import { randomUUID } from 'crypto';
+import type { AlertEvent, AlertRule, InsertAlertRule, Liquidation, UpdateAlertRule } from '@shared/schema';
+import type { IStorage } from '../storage';
+import { WebhookDelivery } from './webhookDelivery';
+
+interface WindowState {
+  items: { timestamp: number; value: number }[];
+  sum: number;
+}
+
+function formatUsd(value: number): string {
+  if (value >= 1000000) return `$${(value / 1000000).toFixed(2)}M`;
+  if (value >= 1000) return `$${(value / 1000).toFixed(0)}K`;
+  return `$${value.toFixed(0)}`;
+}
+
+// 🔔 Проверяет правила на каждой ликвидации и на пересчете deltaRatio.
+// Правила кешируются в памяти; изменения идут через этот класс, чтобы кеш не отставал от хранилища
+export class AlertEngine {
+  private rules: AlertRule[] = [];
+  private windows: Map<string, WindowState> = new Map();
+  private lastFiredAt: Map<string, number> = new Map();
+  private lastDeltaRatio: number | null = null;
+
+  constructor(private storage: IStorage, private delivery = new WebhookDelivery()) {}
+
+  async load() {
+    try {
+      this.rules = await this.storage.getAlertRules();
+      if (this.rules.length > 0) {
+        console.log(`🔔 Загружено правил алертов: ${this.rules.length}`);
+      }
+    } catch (error: any) {
+      console.error('❌ Ошибка загрузки правил алертов:', error.message);
+    }
+  }
+
+  listRules(): AlertRule[] {
+    return this.rules;
+  }
+
+  getRule(id: string): AlertRule | undefined {
+    return this.rules.find(rule => rule.id === id);
+  }
+
+  // WebhookUrlError, если вебхук ведет во внутреннюю сеть
+  async createRule(input: InsertAlertRule): Promise<AlertRule> {
+    await this.delivery.checkUrl(input.webhookUrl);
+    const rule = await this.storage.createAlertRule(input);
+    this.rules.push(rule);
+    return rule;
+  }
+
+  async updateRule(id: string, patch: UpdateAlertRule): Promise<AlertRule | undefined> {
+    if (patch.webhookUrl !== undefined) {
+      await this.delivery.checkUrl(patch.webhookUrl);
+    }
+    const rule = await this.storage.updateAlertRule(id, patch);
+    if (rule) {
+      this.rules = this.rules.map(existing => existing.id === id ? rule : existing);
+      // Условие могло поменяться — накопленное окно больше не актуально
+      this.windows.delete(id);
+    }
+    return rule;
+  }
+
+  async deleteRule(id: string): Promise<boolean> {
+    const deleted = await this.storage.deleteAlertRule(id);
+    this.rules = this.rules.filter(rule => rule.id !== id);
+    this.windows.delete(id);
+    this.lastFiredAt.delete(id);
+    return deleted;
+  }
+
+  // Проверочная доставка на вебхук правила, без учета условия и cooldown
+  testRule(rule: AlertRule) {
+    return this.delivery.deliver(rule.webhookUrl, {
+      id: randomUUID(),
+      ruleId: rule.id,
+      ruleName: rule.name,
+      type: 'test',
+      triggeredAt: Date.now(),
+      message: `Test delivery for rule "${rule.name}"`,
+      data: { condition: rule.condition },
+    });
+  }
+
+  getDeliveries(ruleId?: string) {
+    return this.delivery.getDeliveries(ruleId);
+  }
+
+  onLiquidation(liquidation: Liquidation, now = Date.now()) {
+    for (const rule of this.rules) {
+      if (!rule.enabled) continue;
+      const condition = rule.condition;
+
+      if (condition.type === 'single_liquidation') {
+        const matches = liquidation.value >= condition.minValue &&
+          (!condition.symbols || condition.symbols.includes(liquidation.symbol)) &&
+          (!condition.sides || condition.sides.includes(liquidation.side as 'long' | 'short')) &&
+          (!condition.exchanges || condition.exchanges.includes(liquidation.exchange));
+        if (matches) {
+          this.fire(rule, now,
+            `${liquidation.symbol} ${liquidation.side} liquidation ${formatUsd(liquidation.value)} on ${liquidation.exchange}`,
+            { liquidation });
+        }
+      } else if (condition.type === 'window_sum') {
+        if (condition.symbol && condition.symbol !== liquidation.symbol) continue;
+        if (condition.side && condition.side !== liquidation.side) continue;
+
+        const window = this.windows.get(rule.id) ?? { items: [], sum: 0 };
+        this.windows.set(rule.id, window);
+        window.items.push({ timestamp: liquidation.timestamp, value: liquidation.value });
+        window.sum += liquidation.value;
+
+        const since = liquidation.timestamp - condition.windowSeconds * 1000;
+        while (window.items.length > 0 && window.items[0].timestamp <= since) {
+          window.sum -= window.items.shift()!.value;
+        }
+
+        if (window.sum >= condition.minValue) {
+          const scope = `${condition.symbol ?? 'market'}${condition.side ? ` ${condition.side}s` : ''}`;
+          const fired = this.fire(rule, now,
+            `${formatUsd(window.sum)} in ${scope} liquidations within ${condition.windowSeconds}s`,
+            { total: window.sum, count: window.items.length, windowSeconds: condition.windowSeconds, symbol: condition.symbol ?? null, side: condition.side ?? null });
+          if (fired) {
+            // Следующее срабатывание — на новую набранную сумму, а не на тот же всплеск
+            this.windows.delete(rule.id);
+          }
+        }
+      }
+    }
+  }
+
+  // deltaRatio пересчитывается редко — сравниваем с прошлым значением
+  onDeltaRatio(deltaRatio: number, now = Date.now()) {
+    const previous = this.lastDeltaRatio;
+    this.lastDeltaRatio = deltaRatio;
+    if (previous === null) return;
+
+    for (const rule of this.rules) {
+      if (!rule.enabled || rule.condition.type !== 'delta_ratio') continue;
+      const { threshold, direction } = rule.condition;
+
+      const crossed = direction === 'above'
+        ? previous < threshold && deltaRatio >= threshold
+        : previous > threshold && deltaRatio <= threshold;
+      if (crossed) {
+        this.fire(rule, now,
+          `Liquidation delta ratio crossed ${direction} ${threshold}: ${previous.toFixed(2)} → ${deltaRatio.toFixed(2)}`,
+          { previous, deltaRatio, threshold, direction });
+      }
+    }
+  }
+
+  private fire(rule: AlertRule, now: number, message: string, data: Record<string, unknown>): boolean {
+    const lastFired = this.lastFiredAt.get(rule.id);
+    if (lastFired !== undefined && now - lastFired < rule.cooldownSeconds * 1000) {
+      return false;
+    }
+    this.lastFiredAt.set(rule.id, now);
+
+    const event: AlertEvent = {
+      id: randomUUID(),
+      ruleId: rule.id,
+      ruleName: rule.name,
+      type: rule.condition.type,
+      triggeredAt: now,
+      message,
+      data,
+    };
+    console.log(`🔔 ${rule.name}: ${message}`);
+    this.delivery.deliver(rule.webhookUrl, event);
+    return true;
+  }
+}
@@ -0,0 +1,156 @@
+import type { Cascade, Liquidation } from '@shared/schema';
+
+export interface CascadeDetectorOptions {
+  windowMs: number;  // T: окно, в котором ищем всплеск
+  minCount: number;  // N ликвидаций в одну сторону за T...
+  minValue: number;  // ...или $X в одну сторону за T
+  quietMs: number;   // Каскад закончился, если по символу столько времени тихо
+}
+
+// Одна крупная ликвидация — еще не каскад, даже если она сама дотягивает до $X
+const MIN_CASCADE_COUNT = 2;
+
+export const DEFAULT_CASCADE_OPTIONS: CascadeDetectorOptions = {
+  windowMs: 30 * 1000,
+  minCount: 10,
+  minValue: 1000000,
+  quietMs: 30 * 1000,
+};
+
+function envNumber(value: string | undefined, fallback: number): number {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// CASCADE_WINDOW_SECONDS, CASCADE_MIN_COUNT, CASCADE_MIN_VALUE, CASCADE_QUIET_SECONDS
+export function cascadeOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): CascadeDetectorOptions {
+  return {
+    windowMs: envNumber(env.CASCADE_WINDOW_SECONDS, DEFAULT_CASCADE_OPTIONS.windowMs / 1000) * 1000,
+    minCount: envNumber(env.CASCADE_MIN_COUNT, DEFAULT_CASCADE_OPTIONS.minCount),
+    minValue: envNumber(env.CASCADE_MIN_VALUE, DEFAULT_CASCADE_OPTIONS.minValue),
+    quietMs: envNumber(env.CASCADE_QUIET_SECONDS, DEFAULT_CASCADE_OPTIONS.quietMs / 1000) * 1000,
+  };
+}
+
+interface SymbolWindow {
+  long: Liquidation[];
+  short: Liquidation[];
+  lastSeenAt: number;
+}
+
+interface ActiveCascade {
+  cascade: Cascade;
+  lastSeenAt: number; // Время получения последней ликвидации (часы сервера, не биржи)
+}
+
+// ⚡ Ищет всплески ликвидаций по символу: N штук или $X в одну сторону за T секунд.
+// Пока каскад идет, в него попадают все ликвидации символа; тишина quietMs — конец
+export class CascadeDetector {
+  private windows: Map<string, SymbolWindow> = new Map();
+  private active: Map<string, ActiveCascade> = new Map();
+  private updated: Set<string> = new Set();
+
+  constructor(private options: CascadeDetectorOptions = DEFAULT_CASCADE_OPTIONS) {}
+
+  // Возвращает каскад, если эта ликвидация его начала
+  add(liquidation: Liquidation, now = Date.now()): Cascade | null {
+    if (liquidation.side !== 'long' && liquidation.side !== 'short') {
+      return null;
+    }
+
+    const current = this.active.get(liquidation.symbol);
+    if (current) {
+      this.extend(current.cascade, liquidation);
+      current.lastSeenAt = now;
+      this.updated.add(liquidation.symbol);
+      return null;
+    }
+
+    let window = this.windows.get(liquidation.symbol);
+    if (!window) {
+      window = { long: [], short: [], lastSeenAt: now };
+      this.windows.set(liquidation.symbol, window);
+    }
+    window.lastSeenAt = now;
+
+    const burst = window[liquidation.side];
+    burst.push(liquidation);
+    const since = liquidation.timestamp - this.options.windowMs;
+    while (burst.length > 0 && burst[0].timestamp <= since) {
+      burst.shift();
+    }
+
+    const total = burst.reduce((sum, item) => sum + item.value, 0);
+    if (burst.length < MIN_CASCADE_COUNT || (burst.length < this.options.minCount && total < this.options.minValue)) {
+      return null;
+    }
+
+    const first = burst[0];
+    const cascade: Cascade = {
+      // Каскады лонгов и шортов могут начаться в одну миллисекунду
+      id: `${first.symbol}-${liquidation.side}-${first.timestamp}`,
+      symbol: first.symbol,
+      status: 'active',
+      side: liquidation.side,
+      startTime: first.timestamp,
+      endTime: first.timestamp,
+      totalValue: 0,
+      longValue: 0,
+      shortValue: 0,
+      count: 0,
+      minPrice: first.price,
+      maxPrice: first.price,
+    };
+    for (const item of burst) {
+      this.extend(cascade, item);
+    }
+
+    this.active.set(liquidation.symbol, { cascade, lastSeenAt: now });
+    this.windows.delete(liquidation.symbol);
+    return { ...cascade };
+  }
+
+  // Каскады, изменившиеся с прошлого вызова, и завершившиеся (status: 'ended')
+  tick(now = Date.now()): Cascade[] {
+    const changes: Cascade[] = [];
+
+    this.active.forEach((entry, symbol) => {
+      if (now - entry.lastSeenAt >= this.options.quietMs) {
+        entry.cascade.status = 'ended';
+        this.active.delete(symbol);
+        changes.push({ ...entry.cascade });
+      } else if (this.updated.has(symbol)) {
+        changes.push({ ...entry.cascade });
+      }
+    });
+    this.updated.clear();
+
+    // Символы без свежих ликвидаций не держим
+    this.windows.forEach((window, symbol) => {
+      if (now - window.lastSeenAt > this.options.windowMs) {
+        this.windows.delete(symbol);
+      }
+    });
+
+    return changes;
+  }
+
+  getActive(): Cascade[] {
+    return Array.from(this.active.values()).map(entry => ({ ...entry.cascade }));
+  }
+
+  private extend(cascade: Cascade, liquidation: Liquidation) {
+    cascade.count++;
+    cascade.totalValue += liquidation.value;
+    if (liquidation.side === 'long') {
+      cascade.longValue += liquidation.value;
+    } else {
+      cascade.shortValue += liquidation.value;
+    }
+    cascade.side = cascade.longValue >= cascade.shortValue ? 'long' : 'short';
+    cascade.startTime = Math.min(cascade.startTime, liquidation.timestamp);
+    cascade.endTime = Math.max(cascade.endTime, liquidation.timestamp);
+    cascade.minPrice = Math.min(cascade.minPrice, liquidation.price);
+    cascade.maxPrice = Math.max(cascade.maxPrice, liquidation.price);
+  }
+}
@@ -0,0 +1,175 @@
+import { WebSocket } from 'ws';
+import type { Liquidation } from '@shared/schema';
+import type { AdapterSocket, ExchangeAdapter, ExchangeAdapterHealth, LiquidationHandler } from './types';
+import { FIXTURE_PREFIX, FixtureSocket } from './fixtureSocket';
+
+const RECONNECT_DELAY = 5000;
+
+// Общая логика WebSocket-адаптера: подключение, переподключение через 5 сек,
+// keepalive-пинги и учет здоровья. Наследнику остается передать url,
+// разобрать сообщение (parse) и при необходимости подписаться в onOpen.
+// Url вида "fixture:<путь>" подключает FixtureSocket вместо биржи.
+export abstract class WebSocketExchangeAdapter implements ExchangeAdapter {
+  abstract readonly exchange: string;
+
+  // Keepalive: если биржа требует пинги, наследник задает интервал и сообщение
+  protected pingInterval = 0;
+  protected pingMessage: string = '';
+
+  protected ws: AdapterSocket | null = null;
+  private onLiquidation: LiquidationHandler | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private stopped = false;
+
+  private health: Omit<ExchangeAdapterHealth, 'exchange'> = {
+    connected: false,
+    connectedAt: null,
+    lastMessageAt: null,
+    messagesReceived: 0,
+    liquidationsParsed: 0,
+    reconnects: 0,
+    errors: 0,
+    lastError: null,
+  };
+
+  constructor(protected readonly url: string) {}
+
+  abstract parse(message: unknown): Liquidation[];
+
+  // Вызывается после открытия соединения (подписки на каналы)
+  protected onOpen(_ws: AdapterSocket): void {}
+
+  protected get isFixture() {
+    return this.url.startsWith(FIXTURE_PREFIX);
+  }
+
+  // Разбор сырого кадра. По умолчанию JSON; переопределяется для бирж с текстовыми pong
+  protected decode(raw: string): unknown {
+    return JSON.parse(raw);
+  }
+
+  connect(onLiquidation: LiquidationHandler) {
+    this.onLiquidation = onLiquidation;
+    this.stopped = false;
+    this.open();
+  }
+
+  reconnect() {
+    this.health.reconnects++;
+    // Иначе отложенное переподключение откроет второй сокет, и ликвидации пойдут дважды
+    this.clearReconnectTimer();
+    this.closeSocket();
+    this.open();
+  }
+
+  disconnect() {
+    this.stopped = true;
+    this.clearReconnectTimer();
+    this.closeSocket();
+  }
+
+  getHealth(): ExchangeAdapterHealth {
+    return { exchange: this.exchange, ...this.health };
+  }
+
+  private open() {
+    try {
+      const ws: AdapterSocket = this.isFixture ? new FixtureSocket(this.url) : new WebSocket(this.url);
+      this.ws = ws;
+
+      ws.on('open', () => {
+        console.log(`Connected to ${this.exchange} liquidation stream`);
+        this.health.connected = true;
+        this.health.connectedAt = Date.now();
+        this.onOpen(ws);
+        this.startPing(ws);
+      });
+
+      ws.on('message', (data: Buffer) => {
+        this.health.messagesReceived++;
+        this.health.lastMessageAt = Date.now();
+        try {
+          const message = this.decode(data.toString());
+          for (const liquidation of this.parse(message)) {
+            this.health.liquidationsParsed++;
+            this.onLiquidation?.(liquidation);
+          }
+        } catch (error) {
+          this.recordError(error);
+          console.error(`Error parsing ${this.exchange} message:`, error);
+        }
+      });
+
+      ws.on('error', (error: Error) => {
+        this.recordError(error);
+        console.error(`${this.exchange} WebSocket error:`, error);
+        this.scheduleReconnect(ws);
+      });
+
+      ws.on('close', () => {
+        console.log(`${this.exchange} connection closed, reconnecting...`);
+        this.scheduleReconnect(ws);
+      });
+    } catch (error) {
+      this.recordError(error);
+      console.error(`Failed to connect to ${this.exchange}:`, error);
+      this.scheduleReconnect(null);
+    }
+  }
+
+  // error и close приходят парой — переподключаемся только один раз
+  private scheduleReconnect(ws: AdapterSocket | null) {
+    if (ws && ws !== this.ws) return;
+    this.health.connected = false;
+    this.stopPing();
+    if (this.stopped || this.reconnectTimer) return;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.health.reconnects++;
+      this.open();
+    }, RECONNECT_DELAY);
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private closeSocket() {
+    this.stopPing();
+    const ws = this.ws;
+    this.ws = null;
+    this.health.connected = false;
+    if (ws) {
+      ws.removeAllListeners();
+      ws.on('error', () => {});
+      ws.close();
+    }
+  }
+
+  private startPing(ws: AdapterSocket) {
+    this.stopPing();
+    if (this.pingInterval <= 0) return;
+    this.pingTimer = setInterval(() => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(this.pingMessage);
+      }
+    }, this.pingInterval);
+  }
+
+  private stopPing() {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+  }
+
+  private recordError(error: unknown) {
+    this.health.errors++;
+    this.health.lastError = error instanceof Error ? error.message : String(error);
+  }
+}
@@ -0,0 +1,66 @@
+import type { Liquidation } from '@shared/schema';
+import { WebSocketExchangeAdapter } from './baseAdapter';
+
+export const BINANCE_LIQUIDATION_URL = 'wss://fstream.binance.com/ws/!forceOrder@arr';
+
+export function parseBinanceLiquidation(data: any): Liquidation | null {
+  // Поддержка двух форматов: WebSocket (data.s) и REST API (data.symbol)
+  const symbol = data.s || data.symbol;
+
+  // 🔥 DEBUG: Логируем ВСЕ символы для отладки
+  if (Math.random() < 0.1) { // Логируем 10% для уменьшения спама
+    console.log(`📊 Received liquidation: ${symbol}`);
+  }
+
+  // 🔥 PHASE 3: Разрешаем все символы (включая Unicode: 币安人生USDT, KAITO и т.д.)
+  // Проверяем что символ заканчивается на USDT, BUSD, USD или USDC
+  const isValidSymbol = /(USDT|BUSD|USDC|USD)$/.test(symbol);
+
+  if (!isValidSymbol) {
+    console.log(`Пропущен символ без стейблкоина: ${symbol}`);
+    return null;
+  }
+
+  // Проверка на корректность числовых значений
+  // WebSocket: data.q, REST API: data.origQty
+  const quantity = parseFloat(data.q || data.origQty);
+  // WebSocket: data.p, REST API: data.price
+  const price = parseFloat(data.p || data.price);
+
+  if (isNaN(quantity) || isNaN(price) || quantity <= 0 || price <= 0) {
+    console.log(`Пропущены некорректные данные: ${symbol}, q=${data.q || data.origQty}, p=${data.p || data.price}`);
+    return null;
+  }
+
+  // WebSocket: data.E, REST API: data.time
+  const timestamp = data.E || data.time || Date.now();
+  // WebSocket: data.S, REST API: data.side
+  const side = (data.S || data.side) === 'SELL' ? 'long' : 'short';
+
+  return {
+    id: `${timestamp}-${symbol}-${Math.random()}`,
+    timestamp: timestamp,
+    symbol: symbol,
+    exchange: 'binance',
+    side: side,
+    size: quantity,
+    price: price,
+    value: quantity * price,
+  };
+}
+
+// Binance Futures: все принудительные ликвидации рынка одним потоком
+export class BinanceAdapter extends WebSocketExchangeAdapter {
+  readonly exchange = 'binance';
+
+  constructor(url = BINANCE_LIQUIDATION_URL) {
+    super(url);
+  }
+
+  parse(message: any): Liquidation[] {
+    if (!message?.o) return [];
+    const liquidation = parseBinanceLiquidation(message.o);
+    // Обрабатываем только валидные ликвидации
+    return liquidation ? [liquidation] : [];
+  }
+}
@@ -0,0 +1,105 @@
+import type { Liquidation } from '@shared/schema';
+import type { AdapterSocket } from './types';
+import { WebSocketExchangeAdapter } from './baseAdapter';
+
+export const BYBIT_LIQUIDATION_URL = 'wss://stream.bybit.com/v5/public/linear';
+const BYBIT_INSTRUMENTS_URL = 'https://api.bybit.com/v5/market/instruments-info?category=linear&limit=1000';
+
+// Bybit принимает не больше 10 топиков в одном subscribe
+const TOPICS_PER_REQUEST = 10;
+
+// Если список инструментов не загрузился — подписываемся хотя бы на крупные пары
+const DEFAULT_SYMBOLS = [
+  'BTCUSDT', 'ETHUSDT', 'SOLUSDT', 'XRPUSDT', 'DOGEUSDT',
+  'BNBUSDT', 'ADAUSDT', 'AVAXUSDT', 'LINKUSDT', 'SUIUSDT',
+];
+
+// Один элемент data из топика allLiquidation.<symbol>
+export function parseBybitLiquidation(data: any): Liquidation | null {
+  const symbol: string = data.s;
+
+  if (!symbol || !/(USDT|USDC)$/.test(symbol)) {
+    return null;
+  }
+
+  // Для линейных контрактов v — объем в базовой монете
+  const quantity = parseFloat(data.v);
+  const price = parseFloat(data.p);
+
+  if (isNaN(quantity) || isNaN(price) || quantity <= 0 || price <= 0) {
+    console.log(`Пропущены некорректные данные Bybit: ${symbol}, v=${data.v}, p=${data.p}`);
+    return null;
+  }
+
+  const timestamp = Number(data.T) || Date.now();
+  // S — сторона ордера ликвидации: Buy закрывает шорт, Sell закрывает лонг
+  const side = data.S === 'Buy' ? 'short' : 'long';
+
+  return {
+    id: `${timestamp}-${symbol}-${Math.random()}`,
+    timestamp: timestamp,
+    symbol: symbol,
+    exchange: 'bybit',
+    side: side,
+    size: quantity,
+    price: price,
+    value: quantity * price,
+  };
+}
+
+// Bybit V5: публичный топик allLiquidation, подписка отдельно на каждый символ
+export class BybitAdapter extends WebSocketExchangeAdapter {
+  readonly exchange = 'bybit';
+  protected pingInterval = 20000;
+  protected pingMessage = JSON.stringify({ op: 'ping' });
+
+  private symbols: string[] | null;
+
+  constructor(url = BYBIT_LIQUIDATION_URL, symbols?: string[]) {
+    super(url);
+    this.symbols = symbols && symbols.length > 0 ? symbols : null;
+  }
+
+  protected onOpen(ws: AdapterSocket) {
+    this.resolveSymbols().then(symbols => {
+      if (ws !== this.ws) return;
+      const topics = symbols.map(symbol => `allLiquidation.${symbol}`);
+      for (let i = 0; i < topics.length; i += TOPICS_PER_REQUEST) {
+        ws.send(JSON.stringify({ op: 'subscribe', args: topics.slice(i, i + TOPICS_PER_REQUEST) }));
+      }
+      console.log(`Bybit: подписка на ${topics.length} символов`);
+    });
+  }
+
+  parse(message: any): Liquidation[] {
+    // Ответы на subscribe/ping приходят без topic
+    if (typeof message?.topic !== 'string' || !message.topic.startsWith('allLiquidation.')) {
+      return [];
+    }
+    const items: any[] = Array.isArray(message.data) ? message.data : [message.data];
+    return items
+      .map(item => parseBybitLiquidation(item))
+      .filter((liquidation): liquidation is Liquidation => liquidation !== null);
+  }
+
+  // Все торгуемые USDT-перпетуалы Bybit (загружаются один раз)
+  private async resolveSymbols(): Promise<string[]> {
+    if (this.symbols) return this.symbols;
+    if (this.isFixture) return DEFAULT_SYMBOLS;
+
+    try {
+      const response = await fetch(BYBIT_INSTRUMENTS_URL);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const body = await response.json();
+      const symbols: string[] = (body?.result?.list ?? [])
+        .filter((s: any) => s.status === 'Trading' && s.contractType === 'LinearPerpetual' && s.quoteCoin === 'USDT')
+        .map((s: any) => s.symbol);
+      if (symbols.length === 0) throw new Error('empty instruments list');
+      this.symbols = symbols;
+      return symbols;
+    } catch (error: any) {
+      console.error('Bybit: не удалось загрузить список инструментов:', error.message);
+      return DEFAULT_SYMBOLS;
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import type { AdapterSocket } from './types';
+
+export const FIXTURE_PREFIX = 'fixture:';
+
+interface FixtureFrame {
+  t: number;       // смещение от начала записи, мс
+  frame: unknown;  // сырое сообщение биржи
+}
+
+// Подмена WebSocket для офлайн-разработки и проверки парсеров:
+// проигрывает записанные кадры биржи из NDJSON-файла с их исходными задержками.
+// Адрес вида "fixture:server/fixtures/bybit-allLiquidation.ndjson"
+// (можно добавить "?loop" для бесконечного повтора).
+export class FixtureSocket extends EventEmitter implements AdapterSocket {
+  readyState = 0; // CONNECTING
+  readonly sent: string[] = [];
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private readonly path: string;
+  private readonly loop: boolean;
+
+  constructor(url: string) {
+    super();
+    const [path, query] = url.slice(FIXTURE_PREFIX.length).split('?');
+    this.path = path;
+    this.loop = query === 'loop';
+
+    setImmediate(() => {
+      try {
+        const frames = this.readFrames();
+        this.readyState = 1; // OPEN
+        this.emit('open');
+        this.play(frames);
+      } catch (error) {
+        this.emit('error', error);
+        this.close();
+      }
+    });
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  close() {
+    if (this.readyState >= 2) return;
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers = [];
+    this.readyState = 3; // CLOSED
+    this.emit('close', 1000, Buffer.from(''));
+  }
+
+  private readFrames(): FixtureFrame[] {
+    return fs.readFileSync(this.path, 'utf-8')
+      .split('\n')
+      .filter(line => line.trim() !== '')
+      .map(line => JSON.parse(line) as FixtureFrame);
+  }
+
+  private play(frames: FixtureFrame[]) {
+    const duration = frames.length > 0 ? frames[frames.length - 1].t : 0;
+
+    for (const { t, frame } of frames) {
+      this.timers.push(setTimeout(() => {
+        if (this.readyState !== 1) return;
+        const raw = typeof frame === 'string' ? frame : JSON.stringify(frame);
+        this.emit('message', Buffer.from(raw));
+      }, t));
+    }
+
+    if (this.loop && frames.length > 0) {
+      this.timers.push(setTimeout(() => {
+        this.timers = [];
+        if (this.readyState === 1) this.play(frames);
+      }, duration + 1000));
+    }
+  }
+}
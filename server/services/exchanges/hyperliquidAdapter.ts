@@ -0,0 +1,112 @@
+import type { Liquidation } from '@shared/schema';
+import type { AdapterSocket } from './types';
+import { WebSocketExchangeAdapter } from './baseAdapter';
+
+export const HYPERLIQUID_WS_URL = 'wss://api.hyperliquid.xyz/ws';
+const HYPERLIQUID_INFO_URL = 'https://api.hyperliquid.xyz/info';
+
+// Адрес ликвидатора HLP, который забирает позиции при ликвидации.
+// ⚠️ Так видны только backstop-ликвидации (позицию забрал HLP). Рыночные ликвидации исполняются
+// о стакан с обычными участниками, и в публичном канале trades их не отличить от обычных сделок —
+// поэтому суммы Hyperliquid систематически ниже реальных и с Binance/Bybit/OKX не сравнимы
+export const DEFAULT_HYPERLIQUID_LIQUIDATORS = ['0x2e3d94f0562703b25c83308a05046ddaf9a8dd14'];
+
+const DEFAULT_COINS = ['BTC', 'ETH', 'SOL', 'XRP', 'DOGE', 'HYPE', 'SUI', 'AVAX', 'LINK', 'BNB'];
+
+// Одна сделка из канала trades. Отдельного публичного потока ликвидаций у
+// Hyperliquid нет, поэтому ликвидацией считаем сделку, где одна из сторон —
+// ликвидатор. users = [покупатель, продавец].
+export function parseHyperliquidLiquidation(trade: any, liquidators: Set<string>): Liquidation | null {
+  const users: string[] = Array.isArray(trade.users) ? trade.users.map((u: string) => u.toLowerCase()) : [];
+  const liquidatorBuys = users[0] !== undefined && liquidators.has(users[0]);
+  const liquidatorSells = users[1] !== undefined && liquidators.has(users[1]);
+
+  if (!liquidatorBuys && !liquidatorSells) {
+    return null;
+  }
+
+  // sz и px уже в монетах и долларах (для k-монет вроде kPEPE — за 1000 штук)
+  const quantity = parseFloat(trade.sz);
+  const price = parseFloat(trade.px);
+
+  if (isNaN(quantity) || isNaN(price) || quantity <= 0 || price <= 0) {
+    return null;
+  }
+
+  // Ликвидатор покупает у ликвидированного лонга и продает ликвидированному шорту
+  const side = liquidatorBuys ? 'long' : 'short';
+  const timestamp = Number(trade.time) || Date.now();
+  // Перпетуалы Hyperliquid котируются в долларах (маржа USDC)
+  const symbol = `${trade.coin}USD`;
+
+  return {
+    id: `${timestamp}-${symbol}-${Math.random()}`,
+    timestamp: timestamp,
+    symbol: symbol,
+    exchange: 'hyperliquid',
+    side: side,
+    size: quantity,
+    price: price,
+    value: quantity * price,
+  };
+}
+
+// Hyperliquid: подписка на trades по каждой монете с фильтром по ликвидатору
+export class HyperliquidAdapter extends WebSocketExchangeAdapter {
+  readonly exchange = 'hyperliquid';
+  protected pingInterval = 30000;
+  protected pingMessage = JSON.stringify({ method: 'ping' });
+
+  private coins: string[] | null;
+  private liquidators: Set<string>;
+
+  constructor(url = HYPERLIQUID_WS_URL, coins?: string[], liquidators: string[] = DEFAULT_HYPERLIQUID_LIQUIDATORS) {
+    super(url);
+    this.coins = coins && coins.length > 0 ? coins : null;
+    this.liquidators = new Set(liquidators.map(address => address.toLowerCase()));
+  }
+
+  protected onOpen(ws: AdapterSocket) {
+    this.resolveCoins().then(coins => {
+      if (ws !== this.ws) return;
+      for (const coin of coins) {
+        ws.send(JSON.stringify({ method: 'subscribe', subscription: { type: 'trades', coin } }));
+      }
+      console.log(`Hyperliquid: подписка на ${coins.length} монет`);
+    });
+  }
+
+  parse(message: any): Liquidation[] {
+    if (message?.channel !== 'trades' || !Array.isArray(message.data)) {
+      return [];
+    }
+    return message.data
+      .map((trade: any) => parseHyperliquidLiquidation(trade, this.liquidators))
+      .filter((liquidation: Liquidation | null): liquidation is Liquidation => liquidation !== null);
+  }
+
+  // Все перпетуалы из meta (загружаются один раз)
+  private async resolveCoins(): Promise<string[]> {
+    if (this.coins) return this.coins;
+    if (this.isFixture) return DEFAULT_COINS;
+
+    try {
+      const response = await fetch(HYPERLIQUID_INFO_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: 'meta' }),
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const body = await response.json();
+      const coins: string[] = (body?.universe ?? [])
+        .filter((asset: any) => !asset.isDelisted)
+        .map((asset: any) => asset.name);
+      if (coins.length === 0) throw new Error('empty universe');
+      this.coins = coins;
+      return coins;
+    } catch (error: any) {
+      console.error('Hyperliquid: не удалось загрузить список монет:', error.message);
+      return DEFAULT_COINS;
+    }
+  }
+}
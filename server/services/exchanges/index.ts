@@ -0,0 +1,55 @@
+import type { ExchangeAdapter } from './types';
+import { BinanceAdapter, BINANCE_LIQUIDATION_URL } from './binanceAdapter';
+import { BybitAdapter, BYBIT_LIQUIDATION_URL } from './bybitAdapter';
+import { OkxAdapter, OKX_LIQUIDATION_URL } from './okxAdapter';
+import { HyperliquidAdapter, HYPERLIQUID_WS_URL, DEFAULT_HYPERLIQUID_LIQUIDATORS } from './hyperliquidAdapter';
+
+export type { AdapterSocket, ExchangeAdapter, ExchangeAdapterHealth, LiquidationHandler } from './types';
+export { WebSocketExchangeAdapter } from './baseAdapter';
+export { FixtureSocket, FIXTURE_PREFIX } from './fixtureSocket';
+export { BinanceAdapter, parseBinanceLiquidation } from './binanceAdapter';
+export { BybitAdapter, parseBybitLiquidation } from './bybitAdapter';
+export { OkxAdapter, parseOkxLiquidation } from './okxAdapter';
+export { HyperliquidAdapter, parseHyperliquidLiquidation } from './hyperliquidAdapter';
+
+function parseList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+const ADAPTER_FACTORIES: Record<string, () => ExchangeAdapter> = {
+  binance: () => new BinanceAdapter(process.env.BINANCE_WS_URL || BINANCE_LIQUIDATION_URL),
+  bybit: () => new BybitAdapter(
+    process.env.BYBIT_WS_URL || BYBIT_LIQUIDATION_URL,
+    parseList(process.env.BYBIT_SYMBOLS),
+  ),
+  okx: () => new OkxAdapter(process.env.OKX_WS_URL || OKX_LIQUIDATION_URL),
+  hyperliquid: () => {
+    const liquidators = parseList(process.env.HYPERLIQUID_LIQUIDATORS);
+    return new HyperliquidAdapter(
+      process.env.HYPERLIQUID_WS_URL || HYPERLIQUID_WS_URL,
+      parseList(process.env.HYPERLIQUID_COINS),
+      liquidators.length > 0 ? liquidators : DEFAULT_HYPERLIQUID_LIQUIDATORS,
+    );
+  },
+};
+
+export const SUPPORTED_EXCHANGES = Object.keys(ADAPTER_FACTORIES);
+
+// Источники ликвидаций из LIQUIDATION_SOURCES (по умолчанию — все биржи).
+// Адрес любого потока можно подменить через *_WS_URL, в том числе на
+// записанные кадры: BYBIT_WS_URL=fixture:server/fixtures/bybit-allLiquidation.ndjson
+export function createExchangeAdapters(sources = process.env.LIQUIDATION_SOURCES): ExchangeAdapter[] {
+  const requested = sources ? parseList(sources.toLowerCase()) : SUPPORTED_EXCHANGES;
+
+  return requested.flatMap(name => {
+    const factory = ADAPTER_FACTORIES[name];
+    if (!factory) {
+      console.warn(`Неизвестный источник ликвидаций: ${name} (доступны: ${SUPPORTED_EXCHANGES.join(', ')})`);
+      return [];
+    }
+    return [factory()];
+  });
+}
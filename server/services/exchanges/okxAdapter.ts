@@ -0,0 +1,149 @@
+import type { Liquidation } from '@shared/schema';
+import type { AdapterSocket } from './types';
+import { WebSocketExchangeAdapter } from './baseAdapter';
+
+export const OKX_LIQUIDATION_URL = 'wss://ws.okx.com:8443/ws/v5/public';
+const OKX_INSTRUMENTS_URL = 'https://www.okx.com/api/v5/public/instruments?instType=SWAP';
+
+// Параметры контракта OKX: sz в ликвидации — это число контрактов, не монет
+export interface OkxInstrument {
+  ctVal: number;     // размер одного контракта
+  ctValCcy: string;  // в чем выражен ctVal: базовая монета (linear) или USD (inverse)
+  ctType: 'linear' | 'inverse';
+}
+
+// Запасные значения для крупных пар, пока список инструментов не загружен
+const DEFAULT_INSTRUMENTS: Record<string, OkxInstrument> = {
+  'BTC-USDT-SWAP': { ctVal: 0.01, ctValCcy: 'BTC', ctType: 'linear' },
+  'ETH-USDT-SWAP': { ctVal: 0.1, ctValCcy: 'ETH', ctType: 'linear' },
+  'SOL-USDT-SWAP': { ctVal: 1, ctValCcy: 'SOL', ctType: 'linear' },
+  'XRP-USDT-SWAP': { ctVal: 100, ctValCcy: 'XRP', ctType: 'linear' },
+  'DOGE-USDT-SWAP': { ctVal: 1000, ctValCcy: 'DOGE', ctType: 'linear' },
+  'BTC-USD-SWAP': { ctVal: 100, ctValCcy: 'USD', ctType: 'inverse' },
+  'ETH-USD-SWAP': { ctVal: 10, ctValCcy: 'USD', ctType: 'inverse' },
+};
+
+// BTC-USDT-SWAP -> BTCUSDT, BTC-USD-SWAP -> BTCUSD
+export function normalizeOkxSymbol(instId: string): string {
+  return instId.replace(/-SWAP$/, '').replace('-', '');
+}
+
+// Одна запись details из канала liquidation-orders
+export function parseOkxLiquidation(instId: string, detail: any, instrument: OkxInstrument | undefined): Liquidation | null {
+  const symbol = normalizeOkxSymbol(instId);
+
+  if (!instrument || !/(USDT|USDC|USD)$/.test(symbol)) {
+    return null;
+  }
+
+  const contracts = parseFloat(detail.sz);
+  const price = parseFloat(detail.bkPx);
+
+  if (isNaN(contracts) || isNaN(price) || contracts <= 0 || price <= 0) {
+    console.log(`Пропущены некорректные данные OKX: ${instId}, sz=${detail.sz}, bkPx=${detail.bkPx}`);
+    return null;
+  }
+
+  // linear: контракт = ctVal монет -> value = монеты * цена
+  // inverse: контракт = ctVal USD -> value сразу в долларах, монеты = value / цена
+  let quantity: number;
+  let value: number;
+  if (instrument.ctType === 'inverse') {
+    value = contracts * instrument.ctVal;
+    quantity = value / price;
+  } else {
+    quantity = contracts * instrument.ctVal;
+    value = quantity * price;
+  }
+
+  // В hedge-режиме posSide прямо говорит, чья позиция закрыта;
+  // в net-режиме смотрим на ордер: sell закрывает лонг, buy — шорт
+  const side = detail.posSide === 'long' || detail.posSide === 'short'
+    ? detail.posSide
+    : detail.side === 'sell' ? 'long' : 'short';
+
+  const timestamp = Number(detail.ts) || Date.now();
+
+  return {
+    id: `${timestamp}-${symbol}-${Math.random()}`,
+    timestamp: timestamp,
+    symbol: symbol,
+    exchange: 'okx',
+    side: side,
+    size: quantity,
+    price: price,
+    value: value,
+  };
+}
+
+// OKX V5: канал liquidation-orders по всем бессрочным свопам
+export class OkxAdapter extends WebSocketExchangeAdapter {
+  readonly exchange = 'okx';
+  protected pingInterval = 25000;
+  protected pingMessage = 'ping';
+
+  private instruments: Record<string, OkxInstrument> = { ...DEFAULT_INSTRUMENTS };
+  private instrumentsLoaded = false;
+
+  constructor(url = OKX_LIQUIDATION_URL) {
+    super(url);
+  }
+
+  protected decode(raw: string): unknown {
+    // На текстовый ping OKX отвечает текстовым pong
+    return raw === 'pong' ? null : JSON.parse(raw);
+  }
+
+  protected onOpen(ws: AdapterSocket) {
+    if (!this.instrumentsLoaded && !this.isFixture) {
+      this.loadInstruments();
+    }
+    ws.send(JSON.stringify({
+      op: 'subscribe',
+      args: [{ channel: 'liquidation-orders', instType: 'SWAP' }],
+    }));
+  }
+
+  parse(message: any): Liquidation[] {
+    if (message?.arg?.channel !== 'liquidation-orders' || !Array.isArray(message.data)) {
+      return [];
+    }
+
+    const liquidations: Liquidation[] = [];
+    for (const order of message.data) {
+      const instrument = this.instruments[order.instId];
+      if (!instrument) {
+        console.log(`OKX: неизвестный инструмент ${order.instId}`);
+        continue;
+      }
+      for (const detail of order.details ?? []) {
+        const liquidation = parseOkxLiquidation(order.instId, detail, instrument);
+        if (liquidation) {
+          liquidations.push(liquidation);
+        }
+      }
+    }
+    return liquidations;
+  }
+
+  private async loadInstruments() {
+    try {
+      const response = await fetch(OKX_INSTRUMENTS_URL);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const body = await response.json();
+      for (const item of body?.data ?? []) {
+        const ctVal = parseFloat(item.ctVal);
+        if (!item.instId || isNaN(ctVal) || ctVal <= 0) continue;
+        this.instruments[item.instId] = {
+          ctVal,
+          ctValCcy: item.ctValCcy,
+          ctType: item.ctType === 'inverse' ? 'inverse' : 'linear',
+        };
+      }
+      this.instrumentsLoaded = true;
+      console.log(`OKX: загружено ${Object.keys(this.instruments).length} инструментов`);
+    } catch (error: any) {
+      console.error('OKX: не удалось загрузить список инструментов:', error.message);
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import type { Liquidation } from '@shared/schema';
+
+export type LiquidationHandler = (liquidation: Liquidation) => void;
+
+// Минимальный интерфейс сокета, который нужен адаптеру.
+// Ему удовлетворяет и WebSocket из ws, и FixtureSocket с записанными кадрами.
+export interface AdapterSocket {
+  readonly readyState: number;
+  on(event: string, listener: (...args: any[]) => void): this;
+  removeAllListeners(): this;
+  send(data: string): void;
+  close(): void;
+}
+
+// Состояние подключения к бирже (отдается в /api/health)
+export interface ExchangeAdapterHealth {
+  exchange: string;
+  connected: boolean;
+  connectedAt: number | null;
+  lastMessageAt: number | null;
+  messagesReceived: number;
+  liquidationsParsed: number;
+  reconnects: number;
+  errors: number;
+  lastError: string | null;
+}
+
+// Источник ликвидаций одной биржи.
+// Адаптер сам держит соединение и переподключается, а наружу отдает
+// уже нормализованные Liquidation через onLiquidation.
+export interface ExchangeAdapter {
+  readonly exchange: string;
+  connect(onLiquidation: LiquidationHandler): void;
+  parse(message: unknown): Liquidation[];
+  reconnect(): void;
+  disconnect(): void;
+  getHealth(): ExchangeAdapterHealth;
+}
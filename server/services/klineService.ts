@@ -0,0 +1,407 @@
+import { WebSocket } from 'ws';
+import fs from 'fs';
+import { SYMBOL_PATTERN, type Kline, type KlineInterval } from '@shared/schema';
+import { AdapterSocket, FIXTURE_PREFIX } from './exchanges';
+
+// Фьючерсы Binance; монеты без контракта берем со спота
+export const BINANCE_KLINES_URL = 'https://fapi.binance.com/fapi/v1/klines';
+export const BINANCE_SPOT_KLINES_URL = 'https://api.binance.com/api/v3/klines';
+export const BINANCE_KLINE_WS_URL = 'wss://fstream.binance.com/ws';
+export const BINANCE_SPOT_KLINE_WS_URL = 'wss://stream.binance.com:9443/ws';
+
+const MINUTE = 60 * 1000;
+
+export const KLINE_INTERVAL_MS: Record<KlineInterval, number> = {
+  '1m': MINUTE,
+  '5m': 5 * MINUTE,
+  '15m': 15 * MINUTE,
+  '30m': 30 * MINUTE,
+  '1h': 60 * MINUTE,
+  '4h': 4 * 60 * MINUTE,
+  '1d': 24 * 60 * MINUTE,
+};
+
+const MAX_CANDLES = 1000;          // Столько отдает один REST-запрос Binance
+const RECONNECT_DELAY = 5000;
+const IDLE_MS = 5 * MINUTE;        // Поток без зрителей и запросов закрываем
+const SWEEP_INTERVAL = MINUTE;
+const UNKNOWN_SYMBOL_TTL = 10 * MINUTE; // Промах по символу помним — повторные запросы не ходят на Binance
+
+type KlineMarket = 'futures' | 'spot';
+
+// Нет ни фьючерса, ни спота с таким символом (офлайн — нет свечей этого интервала)
+export class UnknownKlineSymbolError extends Error {
+  status = 404;
+
+  constructor(symbol: string, interval?: KlineInterval) {
+    super(interval ? `No ${interval} klines for ${symbol}` : `No klines for ${symbol}`);
+  }
+}
+
+interface KlineStream {
+  symbol: string;
+  interval: KlineInterval;
+  market: KlineMarket;
+  candles: Kline[];        // По возрастанию времени, не больше MAX_CANDLES
+  loading: Promise<void> | null;
+  loaded: boolean;
+  ws: AdapterSocket | null;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+  connected: boolean;
+  watchers: number;
+  lastUsedAt: number;
+  lastError: string | null;
+}
+
+export interface KlineStreamHealth {
+  symbol: string;
+  interval: KlineInterval;
+  market: KlineMarket;
+  connected: boolean;
+  watchers: number;
+  candles: number;
+  lastError: string | null;
+}
+
+export interface KlineServiceOptions {
+  // fixture:path.json — офлайн: история из файла { SYMBOL: [[openTime, o, h, l, c, v], ...] },
+  // подвинутая к текущему времени, а текущую свечу двигает ценовой поток (addPrice)
+  restUrl?: string;
+  wsUrl?: string;
+  fixture?: Record<string, unknown[]>; // Те же строки без файла; ключ 'SYMBOL:interval' — только для этого интервала
+}
+
+export type KlineUpdateHandler = (symbol: string, interval: KlineInterval, kline: Kline) => void;
+
+// Строка REST klines: [openTime, open, high, low, close, volume, closeTime, ...]
+export function parseBinanceKlineRow(row: unknown): Kline | null {
+  if (!Array.isArray(row) || typeof row[0] !== 'number') return null;
+  const [open, high, low, close, volume] = row.slice(1, 6).map(value => parseFloat(value));
+  if ([open, high, low, close, volume].some(value => isNaN(value))) return null;
+  return {
+    timestamp: row[0],
+    open,
+    high,
+    low,
+    close,
+    volume,
+    closed: typeof row[6] === 'number' ? row[6] < Date.now() : true,
+  };
+}
+
+// Кадр потока: { e: 'kline', s, k: { t, i, o, h, l, c, v, x } }
+export function parseBinanceKlineFrame(message: any): Kline | null {
+  const k = message?.e === 'kline' ? message.k : null;
+  if (!k || typeof k.t !== 'number') return null;
+  const [open, high, low, close, volume] = [k.o, k.h, k.l, k.c, k.v].map(value => parseFloat(value));
+  if ([open, high, low, close, volume].some(value => isNaN(value))) return null;
+  return { timestamp: k.t, open, high, low, close, volume, closed: k.x === true };
+}
+
+function streamKey(symbol: string, interval: KlineInterval) {
+  return `${symbol}:${interval}`;
+}
+
+// Ключ фикстуры для свечей конкретного интервала (запись сессии); просто SYMBOL — форма на любой интервал
+export const klineFixtureKey = streamKey;
+
+// 🕯️ Свечи для всех клиентов: история — один REST-запрос на символ/интервал,
+// дальше — один поток kline с Binance, пока на него кто-то смотрит. Браузеры к Binance не ходят
+export class KlineService {
+  private streams: Map<string, KlineStream> = new Map();
+  private onUpdate: KlineUpdateHandler | null = null;
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+  private fixture: Record<string, unknown[]> | null = null;
+  private unknownSymbols: Map<string, number> = new Map(); // символ → до какого времени считать неизвестным
+  private readonly restUrl: string;
+  private readonly wsUrl: string;
+
+  constructor(options: KlineServiceOptions = {}) {
+    this.restUrl = options.restUrl ?? (process.env.KLINE_REST_URL || BINANCE_KLINES_URL);
+    this.wsUrl = options.wsUrl ?? (process.env.KLINE_WS_URL || BINANCE_KLINE_WS_URL);
+    this.fixture = options.fixture ?? null;
+  }
+
+  private get isOffline() {
+    return this.fixture !== null || this.restUrl.startsWith(FIXTURE_PREFIX);
+  }
+
+  start(onUpdate: KlineUpdateHandler) {
+    this.onUpdate = onUpdate;
+    if (!this.sweepTimer) {
+      this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL);
+    }
+  }
+
+  stop() {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    this.streams.forEach(stream => this.close(stream));
+    this.streams.clear();
+  }
+
+  // Последние limit свечей; первый запрос символа/интервала ждет загрузку истории
+  async getKlines(symbol: string, interval: KlineInterval, limit: number): Promise<Kline[]> {
+    if (this.isUnknown(symbol)) throw new UnknownKlineSymbolError(symbol);
+    const stream = this.ensure(symbol, interval);
+    await this.load(stream);
+    return stream.candles.slice(-limit);
+  }
+
+  watch(symbol: string, interval: KlineInterval) {
+    if (this.isUnknown(symbol)) return;
+    const stream = this.ensure(symbol, interval);
+    stream.watchers++;
+    this.load(stream).catch(error => this.retryLater(stream, error));
+  }
+
+  unwatch(symbol: string, interval: KlineInterval) {
+    const stream = this.streams.get(streamKey(symbol, interval));
+    if (!stream) return;
+    stream.watchers = Math.max(0, stream.watchers - 1);
+    stream.lastUsedAt = Date.now();
+  }
+
+  // 💰 Офлайн текущую свечу двигает mark price (с Binance свечи приходят своим потоком)
+  addPrice(symbol: string, price: number, now = Date.now()) {
+    if (!this.isOffline) return;
+    this.streams.forEach(stream => {
+      if (stream.symbol !== symbol || !stream.loaded) return;
+      const intervalMs = KLINE_INTERVAL_MS[stream.interval];
+      const openTime = Math.floor(now / intervalMs) * intervalMs;
+      const last = stream.candles[stream.candles.length - 1];
+      const kline: Kline = last && last.timestamp === openTime
+        ? { ...last, high: Math.max(last.high, price), low: Math.min(last.low, price), close: price }
+        : { timestamp: openTime, open: last?.close ?? price, high: price, low: price, close: price, volume: 0, closed: false };
+      this.apply(stream, kline);
+    });
+  }
+
+  // Уже загруженные свечи потока (без запроса истории)
+  getCached(symbol: string, interval: KlineInterval): Kline[] {
+    return this.streams.get(streamKey(symbol, interval))?.candles ?? [];
+  }
+
+  getHealth(): KlineStreamHealth[] {
+    return Array.from(this.streams.values()).map(stream => ({
+      symbol: stream.symbol,
+      interval: stream.interval,
+      market: stream.market,
+      connected: this.isOffline ? stream.loaded : stream.connected,
+      watchers: stream.watchers,
+      candles: stream.candles.length,
+      lastError: stream.lastError,
+    }));
+  }
+
+  // Невалидный символ в URL к Binance не попадает; недавний промах — без повторного запроса
+  private isUnknown(symbol: string, now = Date.now()): boolean {
+    if (!SYMBOL_PATTERN.test(symbol)) return true;
+    const until = this.unknownSymbols.get(symbol);
+    if (until === undefined) return false;
+    if (until > now) return true;
+    this.unknownSymbols.delete(symbol);
+    return false;
+  }
+
+  private ensure(symbol: string, interval: KlineInterval): KlineStream {
+    const key = streamKey(symbol, interval);
+    let stream = this.streams.get(key);
+    if (!stream) {
+      stream = {
+        symbol,
+        interval,
+        market: 'futures',
+        candles: [],
+        loading: null,
+        loaded: false,
+        ws: null,
+        reconnectTimer: null,
+        connected: false,
+        watchers: 0,
+        lastUsedAt: Date.now(),
+        lastError: null,
+      };
+      this.streams.set(key, stream);
+    }
+    stream.lastUsedAt = Date.now();
+    return stream;
+  }
+
+  // История загружается один раз на поток; параллельные запросы ждут ту же загрузку
+  private load(stream: KlineStream): Promise<void> {
+    if (stream.loaded) return Promise.resolve();
+    if (!stream.loading) {
+      stream.loading = this.fetchHistory(stream)
+        .then(candles => {
+          stream.candles = candles;
+          stream.loaded = true;
+          stream.lastError = null;
+          if (!this.isOffline) this.open(stream);
+        })
+        .catch(error => {
+          stream.lastError = error.message;
+          // Неизвестный символ держать незачем; при сетевой ошибке следующий запрос попробует снова
+          if (error instanceof UnknownKlineSymbolError) {
+            if (!this.isOffline) this.unknownSymbols.set(stream.symbol, Date.now() + UNKNOWN_SYMBOL_TTL);
+            if (stream.watchers === 0) this.streams.delete(streamKey(stream.symbol, stream.interval));
+          }
+          throw error;
+        })
+        .finally(() => {
+          stream.loading = null;
+        });
+    }
+    return stream.loading;
+  }
+
+  private async fetchHistory(stream: KlineStream): Promise<Kline[]> {
+    if (this.isOffline) return this.readFixture(stream);
+
+    const query = `symbol=${encodeURIComponent(stream.symbol)}&interval=${stream.interval}&limit=${MAX_CANDLES}`;
+    const futures = await this.fetchRows(`${this.restUrl}?${query}`);
+    if (futures) {
+      stream.market = 'futures';
+      return futures;
+    }
+    const spot = await this.fetchRows(`${BINANCE_SPOT_KLINES_URL}?${query}`);
+    if (spot) {
+      stream.market = 'spot';
+      return spot;
+    }
+    throw new UnknownKlineSymbolError(stream.symbol);
+  }
+
+  // null — такого символа на этом рынке нет (Binance отвечает 400 с кодом ошибки)
+  private async fetchRows(url: string): Promise<Kline[] | null> {
+    const response = await fetch(url);
+    if (response.status === 400) return null;
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    const rows = await response.json();
+    if (!Array.isArray(rows) || rows.length === 0) return null;
+    return rows.flatMap(row => {
+      const kline = parseBinanceKlineRow(row);
+      return kline ? [kline] : [];
+    });
+  }
+
+  // Свечи интервала (или общая форма символа): ставим подряд так, чтобы последняя была текущей
+  private readFixture(stream: KlineStream): Kline[] {
+    if (!this.fixture) {
+      const path = this.restUrl.slice(FIXTURE_PREFIX.length).split('?')[0];
+      this.fixture = JSON.parse(fs.readFileSync(path, 'utf-8'));
+    }
+    const rows = this.fixture?.[streamKey(stream.symbol, stream.interval)] ?? this.fixture?.[stream.symbol];
+    if (!rows || rows.length === 0) throw new UnknownKlineSymbolError(stream.symbol, stream.interval);
+
+    const intervalMs = KLINE_INTERVAL_MS[stream.interval];
+    const current = Math.floor(Date.now() / intervalMs) * intervalMs;
+    return rows.flatMap((row, index) => {
+      const kline = parseBinanceKlineRow(row);
+      if (!kline) return [];
+      const timestamp = current - (rows.length - 1 - index) * intervalMs;
+      return [{ ...kline, timestamp, closed: timestamp < current }];
+    });
+  }
+
+  private open(stream: KlineStream) {
+    const base = stream.market === 'spot' ? BINANCE_SPOT_KLINE_WS_URL : this.wsUrl;
+    const url = `${base}/${stream.symbol.toLowerCase()}@kline_${stream.interval}`;
+    try {
+      const ws: AdapterSocket = new WebSocket(url);
+      stream.ws = ws;
+
+      ws.on('open', () => {
+        console.log(`🕯️ Kline stream ${stream.symbol} ${stream.interval} connected`);
+        stream.connected = true;
+      });
+
+      ws.on('message', (data: Buffer) => {
+        try {
+          const kline = parseBinanceKlineFrame(JSON.parse(data.toString()));
+          if (kline) this.apply(stream, kline);
+        } catch (error: any) {
+          stream.lastError = error.message;
+        }
+      });
+
+      ws.on('error', (error: Error) => {
+        stream.lastError = error.message;
+        console.error(`Kline stream ${stream.symbol} ${stream.interval} error:`, error.message);
+        this.scheduleReconnect(stream, ws);
+      });
+
+      ws.on('close', () => {
+        this.scheduleReconnect(stream, ws);
+      });
+    } catch (error: any) {
+      stream.lastError = error.message;
+      this.scheduleReconnect(stream, null);
+    }
+  }
+
+  // После разрыва история могла отстать — перезагружаем ее целиком, поток откроется заново
+  private scheduleReconnect(stream: KlineStream, ws: AdapterSocket | null) {
+    if (ws && ws !== stream.ws) return;
+    stream.connected = false;
+    if (stream.reconnectTimer || this.streams.get(streamKey(stream.symbol, stream.interval)) !== stream) return;
+
+    stream.reconnectTimer = setTimeout(() => {
+      stream.reconnectTimer = null;
+      stream.ws = null;
+      stream.loaded = false;
+      this.load(stream).catch(error => this.retryLater(stream, error));
+    }, RECONNECT_DELAY);
+  }
+
+  // Сеть подвела — пробуем снова, пока поток кому-то нужен; неизвестный символ не появится
+  private retryLater(stream: KlineStream, error: Error) {
+    if (error instanceof UnknownKlineSymbolError) return;
+    this.scheduleReconnect(stream, null);
+  }
+
+  private apply(stream: KlineStream, kline: Kline) {
+    const candles = stream.candles;
+    const last = candles[candles.length - 1];
+    if (last && kline.timestamp < last.timestamp) return;
+
+    if (last && kline.timestamp === last.timestamp) {
+      candles[candles.length - 1] = kline;
+    } else {
+      if (last && !last.closed) candles[candles.length - 1] = { ...last, closed: true };
+      candles.push(kline);
+      if (candles.length > MAX_CANDLES) candles.shift();
+    }
+    this.onUpdate?.(stream.symbol, stream.interval, kline);
+  }
+
+  private sweep(now = Date.now()) {
+    this.unknownSymbols.forEach((until, symbol) => {
+      if (until <= now) this.unknownSymbols.delete(symbol);
+    });
+    this.streams.forEach((stream, key) => {
+      if (stream.watchers === 0 && stream.lastUsedAt < now - IDLE_MS) {
+        this.close(stream);
+        this.streams.delete(key);
+      }
+    });
+  }
+
+  private close(stream: KlineStream) {
+    if (stream.reconnectTimer) {
+      clearTimeout(stream.reconnectTimer);
+      stream.reconnectTimer = null;
+    }
+    const ws = stream.ws;
+    stream.ws = null;
+    stream.connected = false;
+    if (ws) {
+      ws.removeAllListeners();
+      ws.on('error', () => {});
+      ws.close();
+    }
+  }
+}
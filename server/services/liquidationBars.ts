@@ -0,0 +1,169 @@
+import {
+  BAR_INTERVALS,
+  MARKET_SYMBOL,
+  type BarInterval,
+  type Liquidation,
+  type LiquidationBar,
+  type WindowStats,
+} from '@shared/schema';
+
+export const BAR_INTERVAL_MS: Record<BarInterval, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+// Сколько истории держим в памяти для каждого интервала
+const BAR_RETENTION_MS: Record<BarInterval, number> = {
+  '1m': 24 * 60 * 60 * 1000,
+  '5m': 2 * 24 * 60 * 60 * 1000,
+  '15m': 7 * 24 * 60 * 60 * 1000,
+  '1h': 30 * 24 * 60 * 60 * 1000,
+  '4h': 90 * 24 * 60 * 60 * 1000,
+  '1d': 365 * 24 * 60 * 60 * 1000,
+};
+
+export interface BarRange {
+  from?: number;
+  to?: number;
+  limit?: number;
+}
+
+function seriesKey(symbol: string, interval: BarInterval) {
+  return `${symbol}|${interval}`;
+}
+
+// 🕯️ Сворачивает поток ликвидаций в свечи по символу и по всему рынку (MARKET_SYMBOL).
+// Серии разреженные: свеча появляется только когда в нее попала ликвидация.
+export class LiquidationBarAggregator {
+  private series: Map<string, LiquidationBar[]> = new Map();
+  private updated: Map<string, LiquidationBar> = new Map();
+
+  add(liquidation: Liquidation) {
+    for (const interval of BAR_INTERVALS) {
+      this.addToBar(liquidation.symbol, interval, liquidation);
+      this.addToBar(MARKET_SYMBOL, interval, liquidation);
+    }
+  }
+
+  // Восстановление из хранилища: минутные свечи раскладываются во все интервалы
+  seed(minuteBars: LiquidationBar[]) {
+    const sorted = [...minuteBars].sort((a, b) => a.openTime - b.openTime);
+    for (const source of sorted) {
+      for (const interval of BAR_INTERVALS) {
+        const openTime = Math.floor(source.openTime / BAR_INTERVAL_MS[interval]) * BAR_INTERVAL_MS[interval];
+        this.mergeBar(source.symbol, interval, openTime, source);
+        this.mergeBar(MARKET_SYMBOL, interval, openTime, source);
+      }
+    }
+  }
+
+  // Суммы за скользящее окно по минутным свечам
+  getWindowStats(symbol: string, windowMs: number, now = Date.now()): WindowStats & { maxValue: number } {
+    const stats = { longs: 0, shorts: 0, longCount: 0, shortCount: 0, maxValue: 0 };
+    const bars = this.series.get(seriesKey(symbol, '1m')) ?? [];
+    const since = now - windowMs;
+
+    for (let i = bars.length - 1; i >= 0 && bars[i].openTime + BAR_INTERVAL_MS['1m'] > since; i--) {
+      stats.longs += bars[i].longValue;
+      stats.shorts += bars[i].shortValue;
+      stats.longCount += bars[i].longCount;
+      stats.shortCount += bars[i].shortCount;
+      stats.maxValue = Math.max(stats.maxValue, bars[i].maxValue);
+    }
+    return stats;
+  }
+
+  // Свечи по возрастанию времени; limit — последние N из диапазона
+  getBars(symbol: string, interval: BarInterval, range: BarRange = {}): LiquidationBar[] {
+    const bars = this.series.get(seriesKey(symbol, interval)) ?? [];
+    const inRange = bars.filter(bar =>
+      (range.from === undefined || bar.openTime + BAR_INTERVAL_MS[interval] > range.from) &&
+      (range.to === undefined || bar.openTime <= range.to)
+    );
+    return range.limit !== undefined ? inRange.slice(-range.limit) : inRange;
+  }
+
+  // Свечи, изменившиеся с прошлого вызова (для рассылки по /ws)
+  takeUpdates(): LiquidationBar[] {
+    const updates = Array.from(this.updated.values()).map(bar => ({ ...bar }));
+    this.updated.clear();
+    return updates;
+  }
+
+  // Удаляет свечи старше срока хранения интервала
+  prune(now = Date.now()) {
+    this.series.forEach((bars, key) => {
+      const interval = key.slice(key.lastIndexOf('|') + 1) as BarInterval;
+      const minOpenTime = now - BAR_RETENTION_MS[interval];
+      let firstKept = 0;
+      while (firstKept < bars.length && bars[firstKept].openTime < minOpenTime) {
+        firstKept++;
+      }
+      if (firstKept === bars.length) {
+        this.series.delete(key);
+      } else if (firstKept > 0) {
+        bars.splice(0, firstKept);
+      }
+    });
+  }
+
+  private addToBar(symbol: string, interval: BarInterval, liquidation: Liquidation) {
+    const key = seriesKey(symbol, interval);
+    const openTime = Math.floor(liquidation.timestamp / BAR_INTERVAL_MS[interval]) * BAR_INTERVAL_MS[interval];
+    const bar = this.findOrCreateBar(key, symbol, interval, openTime);
+
+    if (liquidation.side === 'long') {
+      bar.longValue += liquidation.value;
+      bar.longCount++;
+    } else {
+      bar.shortValue += liquidation.value;
+      bar.shortCount++;
+    }
+    bar.maxValue = Math.max(bar.maxValue, liquidation.value);
+
+    this.updated.set(`${key}|${openTime}`, bar);
+  }
+
+  private mergeBar(symbol: string, interval: BarInterval, openTime: number, source: LiquidationBar) {
+    const bar = this.findOrCreateBar(seriesKey(symbol, interval), symbol, interval, openTime);
+    bar.longValue += source.longValue;
+    bar.shortValue += source.shortValue;
+    bar.longCount += source.longCount;
+    bar.shortCount += source.shortCount;
+    bar.maxValue = Math.max(bar.maxValue, source.maxValue);
+  }
+
+  private findOrCreateBar(key: string, symbol: string, interval: BarInterval, openTime: number): LiquidationBar {
+    let bars = this.series.get(key);
+    if (!bars) {
+      bars = [];
+      this.series.set(key, bars);
+    }
+
+    // Обычно ликвидация попадает в последнюю свечу — ищем с конца
+    let index = bars.length - 1;
+    while (index >= 0 && bars[index].openTime > openTime) {
+      index--;
+    }
+    if (index >= 0 && bars[index].openTime === openTime) {
+      return bars[index];
+    }
+
+    const bar: LiquidationBar = {
+      symbol,
+      interval,
+      openTime,
+      longValue: 0,
+      shortValue: 0,
+      longCount: 0,
+      shortCount: 0,
+      maxValue: 0,
+    };
+    bars.splice(index + 1, 0, bar);
+    return bar;
+  }
+}
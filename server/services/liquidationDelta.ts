@@ -0,0 +1,161 @@
+import {
+  DELTA_MIN_MOVE_PERCENT,
+  DELTA_RATIO_CAP,
+  DELTA_WINDOWS,
+  MARKET_SYMBOL,
+  type DeltaWindow,
+  type Liquidation,
+  type LiquidationDelta,
+  type LiquidationDeltaPoint,
+} from '@shared/schema';
+
+const MINUTE = 60 * 1000;
+
+export const DELTA_WINDOW_MS: Record<DeltaWindow, number> = {
+  '15m': 15 * MINUTE,
+  '1h': 60 * MINUTE,
+  '4h': 4 * 60 * MINUTE,
+};
+
+// История — сутки точек плюс самое длинное окно перед первой из них
+export const DELTA_HISTORY_MS = 24 * 60 * MINUTE;
+export const DELTA_HISTORY_STEP_MS = 5 * MINUTE;
+const RETENTION_MS = DELTA_HISTORY_MS + Math.max(...DELTA_WINDOWS.map(window => DELTA_WINDOW_MS[window]));
+
+// Цену рынка в целом представляет BTC
+export const MARKET_PRICE_SYMBOL = 'BTCUSDT';
+
+interface MinuteBucket {
+  openTime: number;
+  longs: number;
+  shorts: number;
+  close: number | null; // Последняя известная цена в этой минуте
+}
+
+// 🔥 Ликвидации на 1% движения цены по каждому символу и по рынку.
+// Минутные корзины по времени получения (как у каскадов): цена приходит из ценового потока,
+// а пока его нет — берется из ликвидаций. Символ отслеживается с первой его ликвидации
+export class LiquidationDeltaTracker {
+  private series: Map<string, MinuteBucket[]> = new Map();
+
+  constructor() {
+    this.series.set(MARKET_SYMBOL, []);
+  }
+
+  addLiquidation(liquidation: Liquidation, now = Date.now()) {
+    const value = liquidation.value;
+    const isLong = liquidation.side === 'long';
+
+    for (const symbol of [liquidation.symbol, MARKET_SYMBOL]) {
+      let buckets = this.series.get(symbol);
+      if (!buckets) {
+        buckets = [];
+        this.series.set(symbol, buckets);
+      }
+      const bucket = this.bucketAt(buckets, now);
+      if (isLong) bucket.longs += value;
+      else bucket.shorts += value;
+
+      const priceSymbol = symbol === MARKET_SYMBOL ? MARKET_PRICE_SYMBOL : symbol;
+      if (bucket.close === null && liquidation.symbol === priceSymbol) {
+        bucket.close = liquidation.price;
+      }
+    }
+  }
+
+  addPrice(symbol: string, price: number, now = Date.now()) {
+    const buckets = this.series.get(symbol);
+    if (buckets) {
+      this.bucketAt(buckets, now).close = price;
+    }
+    if (symbol === MARKET_PRICE_SYMBOL) {
+      this.bucketAt(this.series.get(MARKET_SYMBOL)!, now).close = price;
+    }
+  }
+
+  getDelta(symbol: string, window: DeltaWindow, now = Date.now()): LiquidationDelta | null {
+    const buckets = this.series.get(symbol);
+    if (!buckets) return null;
+
+    const point = this.computeAt(buckets, window, now);
+    return point && { symbol, window, ...point };
+  }
+
+  // Точки с шагом DELTA_HISTORY_STEP_MS за последние historyMs, старые сначала
+  getHistory(symbol: string, window: DeltaWindow, historyMs = DELTA_HISTORY_MS, now = Date.now()): LiquidationDeltaPoint[] {
+    const buckets = this.series.get(symbol);
+    if (!buckets) return [];
+
+    const points: LiquidationDeltaPoint[] = [];
+    const last = Math.floor(now / DELTA_HISTORY_STEP_MS) * DELTA_HISTORY_STEP_MS;
+    for (let end = last - historyMs + DELTA_HISTORY_STEP_MS; end <= last; end += DELTA_HISTORY_STEP_MS) {
+      const point = this.computeAt(buckets, window, end);
+      if (point) {
+        const { lastPrice, startPrice, longs, shorts, ...rest } = point;
+        points.push(rest);
+      }
+    }
+    return points;
+  }
+
+  // Старые минуты отбрасываем; символ без ликвидаций за весь срок хранения больше не отслеживаем
+  prune(now = Date.now()) {
+    const cutoff = now - RETENTION_MS;
+    this.series.forEach((buckets, symbol) => {
+      let drop = 0;
+      while (drop < buckets.length && buckets[drop].openTime < cutoff) drop++;
+      if (drop > 0) buckets.splice(0, drop);
+
+      if (symbol !== MARKET_SYMBOL && !buckets.some(bucket => bucket.longs > 0 || bucket.shorts > 0)) {
+        this.series.delete(symbol);
+      }
+    });
+  }
+
+  private bucketAt(buckets: MinuteBucket[], now: number): MinuteBucket {
+    const openTime = Math.floor(now / MINUTE) * MINUTE;
+    const last = buckets[buckets.length - 1];
+    if (last && last.openTime === openTime) return last;
+
+    // Новая минута начинается с цены прошлой — иначе в минутах без обновлений цены будут дыры
+    const bucket: MinuteBucket = { openTime, longs: 0, shorts: 0, close: last?.close ?? null };
+    buckets.push(bucket);
+    return bucket;
+  }
+
+  // Окно (end - window, end]: суммы корзин внутри, цена — на начало и на конец окна
+  private computeAt(buckets: MinuteBucket[], window: DeltaWindow, end: number) {
+    const start = end - DELTA_WINDOW_MS[window];
+    let startPrice: number | null = null;
+    let lastPrice: number | null = null;
+    let longs = 0;
+    let shorts = 0;
+
+    for (const bucket of buckets) {
+      if (bucket.openTime >= end) break;
+      if (bucket.openTime < start) {
+        if (bucket.close !== null) startPrice = bucket.close;
+        continue;
+      }
+      // Окно еще не набралось — отсчитываем от первой известной цены внутри него
+      if (startPrice === null && bucket.close !== null) startPrice = bucket.close;
+      if (bucket.close !== null) lastPrice = bucket.close;
+      longs += bucket.longs;
+      shorts += bucket.shorts;
+    }
+
+    if (startPrice === null || lastPrice === null) return null;
+
+    const priceChangePercent = (lastPrice - startPrice) / startPrice * 100;
+    const move = Math.abs(priceChangePercent);
+    const longsPerPercent = move >= DELTA_MIN_MOVE_PERCENT ? longs / move : null;
+    const shortsPerPercent = move >= DELTA_MIN_MOVE_PERCENT ? shorts / move : null;
+    // Только лонги — потолок, только шорты — 0, ни тех ни других — равновесие
+    const deltaRatio = longsPerPercent === null || shortsPerPercent === null
+      ? null
+      : shortsPerPercent > 0 ? Math.min(longsPerPercent / shortsPerPercent, DELTA_RATIO_CAP)
+      : longsPerPercent > 0 ? DELTA_RATIO_CAP : 1;
+
+    return { timestamp: end, priceChangePercent, longsPerPercent, shortsPerPercent, deltaRatio, lastPrice, startPrice, longs, shorts };
+  }
+}
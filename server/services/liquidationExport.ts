@@ -0,0 +1,213 @@
+import type { Response } from 'express';
+import { ByteWriter, ParquetWriter, schemaFromColumnData } from 'hyparquet-writer';
+import type { ColumnSource } from 'hyparquet-writer';
+import type { ExportColumn, ExportFormat, Liquidation, LiquidationExportQuery } from '@shared/schema';
+import type { IStorage, LiquidationCursor } from '../storage';
+
+const EXPORT_BATCH_SIZE = 5000; // Строк на запрос к хранилищу; в Parquet — строк в row group
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  parquet: 'application/vnd.apache.parquet',
+};
+
+type ExportValue = string | number | null;
+
+// Типы колонок в Parquet: timestamp — TIMESTAMP_MILLIS, контекст рынка может отсутствовать
+const PARQUET_COLUMNS: Record<ExportColumn, Pick<ColumnSource, 'type' | 'nullable'>> = {
+  id: { type: 'STRING', nullable: false },
+  timestamp: { type: 'TIMESTAMP', nullable: false },
+  time: { type: 'STRING', nullable: false },
+  symbol: { type: 'STRING', nullable: false },
+  exchange: { type: 'STRING', nullable: false },
+  side: { type: 'STRING', nullable: false },
+  size: { type: 'DOUBLE', nullable: false },
+  price: { type: 'DOUBLE', nullable: false },
+  value: { type: 'DOUBLE', nullable: false },
+  openInterest: { type: 'DOUBLE', nullable: true },
+  openInterestValue: { type: 'DOUBLE', nullable: true },
+  fundingRate: { type: 'DOUBLE', nullable: true },
+};
+
+interface ExportWriter {
+  write(rows: Liquidation[]): Promise<void>;
+  finish(): Promise<void>;
+}
+
+// 🕐 Время в часовом поясе выгрузки: 2026-10-19T15:04:05.123+03:00 (UTC — с Z)
+export function timeFormatter(timeZone: string): (timestamp: number) => string {
+  const format = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+  return (timestamp) => {
+    const parts: Record<string, number> = {};
+    format.formatToParts(new Date(timestamp)).forEach(part => {
+      if (part.type !== 'literal') parts[part.type] = Number(part.value);
+    });
+    const ms = ((timestamp % 1000) + 1000) % 1000;
+    const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, ms);
+    const offset = Math.round((wallClock - timestamp) / 60000);
+    const zone = offset === 0
+      ? 'Z'
+      : `${offset > 0 ? '+' : '-'}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+    return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}T${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}.${pad(ms, 3)}${zone}`;
+  };
+}
+
+function columnValue(liquidation: Liquidation, column: ExportColumn, formatTime: (timestamp: number) => string): ExportValue {
+  switch (column) {
+    case 'time':
+      return formatTime(liquidation.timestamp);
+    case 'openInterest':
+    case 'openInterestValue':
+    case 'fundingRate':
+      return liquidation.context?.[column] ?? null;
+    default:
+      return liquidation[column];
+  }
+}
+
+function csvCell(value: ExportValue): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Запись с учетом backpressure; после обрыва соединения просто ничего не ждем
+function send(res: Response, chunk: string | Buffer): Promise<void> {
+  if (res.destroyed || res.write(chunk)) return Promise.resolve();
+  return new Promise(resolve => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+}
+
+function textWriter(res: Response, format: (rows: Liquidation[]) => string, header = ''): ExportWriter {
+  let started = false;
+  return {
+    async write(rows) {
+      const chunk = format(rows);
+      await send(res, started ? chunk : header + chunk);
+      started = true;
+    },
+    async finish() {
+      if (!started && header) await send(res, header);
+    },
+  };
+}
+
+// ByteWriter hyparquet-writer, который после каждой row group отдает накопленное в ответ
+class ResponseByteWriter extends ByteWriter {
+  constructor(private readonly res: Response) {
+    super(64 * 1024);
+  }
+
+  flush(): Promise<void> {
+    const chunk = Buffer.from(this.getBytes());
+    this.index = 0;
+    return send(this.res, chunk);
+  }
+
+  finish(): Promise<void> {
+    return this.flush();
+  }
+}
+
+function parquetWriter(res: Response, query: LiquidationExportQuery, formatTime: (timestamp: number) => string): ExportWriter {
+  const columnData = (rows: Liquidation[]): ColumnSource[] => query.columns.map(column => ({
+    name: column,
+    // TIMESTAMP hyparquet-writer ждет датами (иначе не посчитать min/max статистики)
+    data: column === 'timestamp'
+      ? rows.map(liquidation => new Date(liquidation.timestamp))
+      : rows.map(liquidation => columnValue(liquidation, column, formatTime)),
+    ...PARQUET_COLUMNS[column],
+  }));
+  const writer = new ParquetWriter({
+    writer: new ResponseByteWriter(res),
+    schema: schemaFromColumnData({ columnData: columnData([]) }),
+    kvMetadata: [{ key: 'timezone', value: query.timezone }],
+  });
+
+  return {
+    async write(rows) {
+      await writer.write({ columnData: columnData(rows), rowGroupSize: rows.length });
+    },
+    async finish() {
+      await writer.finish();
+    },
+  };
+}
+
+function createExportWriter(res: Response, query: LiquidationExportQuery): ExportWriter {
+  const formatTime = timeFormatter(query.timezone);
+  const { columns } = query;
+
+  switch (query.format) {
+    case 'csv':
+      return textWriter(
+        res,
+        rows => rows.map(liquidation => columns.map(column => csvCell(columnValue(liquidation, column, formatTime))).join(',') + '\n').join(''),
+        columns.join(',') + '\n',
+      );
+    case 'ndjson':
+      return textWriter(res, rows => rows.map(liquidation => {
+        const record: Record<string, ExportValue> = {};
+        columns.forEach(column => { record[column] = columnValue(liquidation, column, formatTime); });
+        return JSON.stringify(record) + '\n';
+      }).join(''));
+    case 'parquet':
+      return parquetWriter(res, query, formatTime);
+  }
+}
+
+// liquidations-20261019-150405.csv (время выгрузки, UTC)
+export function exportFileName(format: ExportFormat, now = Date.now()): string {
+  const stamp = new Date(now).toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-');
+  return `liquidations-${stamp}.${format}`;
+}
+
+// 📤 Выгрузка истории в ответ по мере чтения: страницы по курсору, как в /api/liquidations (от новых к старым),
+// поэтому память не зависит от объема. Первая страница читается до заголовков —
+// ошибка хранилища еще может стать обычным 500. Возвращает число выгруженных строк
+export async function streamLiquidationExport(storage: IStorage, query: LiquidationExportQuery, res: Response): Promise<number> {
+  const { format, columns, timezone, limit, ...filter } = query;
+  const nextPage = (before: LiquidationCursor | undefined, remaining: number) =>
+    storage.getLiquidations({ ...filter, before, limit: Math.min(EXPORT_BATCH_SIZE, remaining) });
+
+  let rows = await nextPage(undefined, limit);
+  res.status(200);
+  res.setHeader('Content-Type', CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${exportFileName(format)}"`);
+  res.setHeader('Cache-Control', 'no-store');
+
+  const writer = createExportWriter(res, query);
+  let exported = 0;
+  while (rows.length > 0 && !res.destroyed) {
+    await writer.write(rows);
+    exported += rows.length;
+    const last = rows[rows.length - 1];
+    if (rows.length < EXPORT_BATCH_SIZE || exported >= limit) break;
+    rows = await nextPage({ timestamp: last.timestamp, id: last.id }, limit - exported);
+  }
+
+  if (!res.destroyed) {
+    await writer.finish();
+    res.end();
+  }
+  return exported;
+}
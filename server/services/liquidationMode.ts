@@ -0,0 +1,87 @@
+import { REPLAY_SPEEDS, ReplaySpeed } from '@shared/schema';
+import { IStorage, MemStorage, storage as defaultStorage } from '../storage';
+import type { LiquidationServiceOptions } from './liquidationService';
+import { SessionRecorder } from './sessionRecorder';
+import { ReplaySource } from './replaySource';
+import { SimulatedSource, simulationOptionsFromEnv } from './simulatedSource';
+import { PriceFeed } from './priceFeed';
+import { KlineService } from './klineService';
+import { OpenInterestTracker } from './openInterest';
+import { FIXTURE_PREFIX } from './exchanges';
+
+export const LIQUIDATION_MODES = ['live', 'replay', 'simulated'] as const;
+export type LiquidationMode = typeof LIQUIDATION_MODES[number];
+
+export interface LiquidationModeSetup {
+  mode: LiquidationMode;
+  storage: IStorage;
+  options: LiquidationServiceOptions;
+}
+
+// Без подключения к биржам OI — из фикстуры (те же символы, что у симуляции), если не задан свой источник
+const OFFLINE_OPEN_INTEREST_URL = `${FIXTURE_PREFIX}server/fixtures/binance-openInterest.json`;
+
+function parseReplaySpeed(value: string | undefined): ReplaySpeed {
+  const speed = Number(value || 1);
+  if (REPLAY_SPEEDS.includes(speed as ReplaySpeed)) return speed as ReplaySpeed;
+  console.warn(`REPLAY_SPEED=${value} не поддерживается (доступны: ${REPLAY_SPEEDS.join(', ')}), играем с 1x`);
+  return 1;
+}
+
+// 🎛️ Откуда берутся ликвидации — выбирается при старте (LIQUIDATION_MODE):
+// live — биржи (RECORD_DIR включает запись сессии), replay — записанный файл REPLAY_FILE,
+// simulated — синтетический рынок (SIM_*). Не live не пишет в базу: история и алерты — в памяти,
+// чтобы запись и синтетика не смешались с живыми данными. Цены в этих режимах дает сам источник
+export function createLiquidationMode(env = process.env): LiquidationModeSetup {
+  const mode = (env.LIQUIDATION_MODE || 'live').toLowerCase();
+
+  if (mode === 'replay') {
+    if (!env.REPLAY_FILE) {
+      throw new Error('LIQUIDATION_MODE=replay requires REPLAY_FILE');
+    }
+    const replay = new ReplaySource(env.REPLAY_FILE, { speed: parseReplaySpeed(env.REPLAY_SPEED) });
+    const priceFeed = new PriceFeed(null);
+    replay.onPricesUpdate((prices) => priceFeed.publish(prices));
+    return {
+      mode: 'replay',
+      storage: new MemStorage(),
+      options: {
+        adapters: [replay],
+        replay,
+        priceFeed,
+        klines: new KlineService({ fixture: replay.getKlineHistory() }),
+        // Снимки OI у записанных ликвидаций уже есть; опрос Binance без сети только сыпал бы ошибками
+        openInterest: new OpenInterestTracker({ url: env.OPEN_INTEREST_URL || OFFLINE_OPEN_INTEREST_URL }),
+      },
+    };
+  }
+
+  if (mode === 'simulated') {
+    const options = simulationOptionsFromEnv(env);
+    const simulated = new SimulatedSource(options);
+    const priceFeed = new PriceFeed(null);
+    simulated.onPricesUpdate((prices) => priceFeed.publish(prices));
+    console.log(`🎲 Симуляция: seed ${options.seed}, ${options.ratePerSecond}/сек, каскадов в сценарии: ${options.cascades.length}`);
+    return {
+      mode: 'simulated',
+      storage: new MemStorage(),
+      options: {
+        adapters: [simulated],
+        priceFeed,
+        klines: new KlineService({ fixture: simulated.getKlineHistory() }),
+        openInterest: new OpenInterestTracker({ url: env.OPEN_INTEREST_URL || OFFLINE_OPEN_INTEREST_URL }),
+      },
+    };
+  }
+
+  if (mode !== 'live') {
+    console.warn(`Неизвестный LIQUIDATION_MODE: ${mode} (доступны: ${LIQUIDATION_MODES.join(', ')}), работаем live`);
+  }
+  return {
+    mode: 'live',
+    storage: defaultStorage,
+    options: {
+      recorder: env.RECORD_DIR ? new SessionRecorder(env.RECORD_DIR) : undefined,
+    },
+  };
+}
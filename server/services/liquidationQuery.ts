@@ -0,0 +1,47 @@
+import type { Liquidation, LiquidationQuery } from '@shared/schema';
+import type { IStorage, LiquidationCursor } from '../storage';
+
+export interface LiquidationPage {
+  data: Liquidation[];
+  nextCursor: string | null;
+}
+
+export class InvalidCursorError extends Error {
+  status = 400;
+
+  constructor() {
+    super('Invalid cursor');
+  }
+}
+
+// Курсор непрозрачен для клиента: base64url от "timestamp:id" последней записи страницы
+export function encodeCursor(liquidation: Liquidation): string {
+  return Buffer.from(`${liquidation.timestamp}:${liquidation.id}`).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): LiquidationCursor {
+  const decoded = Buffer.from(cursor, 'base64url').toString();
+  const separator = decoded.indexOf(':');
+  const timestamp = Number(decoded.slice(0, separator));
+  if (separator <= 0 || !Number.isFinite(timestamp)) {
+    throw new InvalidCursorError();
+  }
+  return { timestamp, id: decoded.slice(separator + 1) };
+}
+
+// Одна страница истории. Берем на запись больше, чтобы понять, есть ли продолжение
+export async function queryLiquidationPage(storage: IStorage, query: LiquidationQuery): Promise<LiquidationPage> {
+  const { cursor, limit, ...filter } = query;
+  const rows = await storage.getLiquidations({
+    ...filter,
+    before: cursor ? decodeCursor(cursor) : undefined,
+    limit: limit + 1,
+  });
+
+  const data = rows.slice(0, limit);
+  const hasMore = rows.length > limit;
+  return {
+    data,
+    nextCursor: hasMore ? encodeCursor(data[data.length - 1]) : null,
+  };
+}
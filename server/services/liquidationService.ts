@@ -1,114 +1,356 @@
 import { WebSocketServer, WebSocket } from 'ws';
-import { Liquidation, MarketStats } from '@shared/schema';
+import { randomUUID } from 'crypto';
+import { BarInterval, Cascade, DeltaWindow, Kline, KlineInterval, Liquidation, LiquidationBar, MARKET_SYMBOL, MarketContext, MarketStats, OpenInterestStats, ReplayControl, STATS_WINDOWS, StatsWindow, SymbolPrice, SymbolStats, WindowStats } from '@shared/schema';
+import { ClientMessage, LiquidationSubscription, ServerMessage, clientMessageSchema, matchesSubscription } from '@shared/wsProtocol';
+import { fromZodError } from 'zod-validation-error';
+import { ExchangeAdapter, createExchangeAdapters, parseBinanceLiquidation } from './exchanges';
+import { IStorage, storage as defaultStorage } from '../storage';
+import { BarRange, LiquidationBarAggregator } from './liquidationBars';
+import { AlertEngine } from './alertEngine';
+import { CascadeDetector, CascadeDetectorOptions, cascadeOptionsFromEnv } from './cascadeDetector';
+import { PriceFeed } from './priceFeed';
+import { LiquidationDeltaTracker } from './liquidationDelta';
+import { OpenInterestTracker } from './openInterest';
+import { KlineService } from './klineService';
+import { SessionRecorder } from './sessionRecorder';
+import { ReplaySource } from './replaySource';
+
+// 💾 Пакетная запись в хранилище
+const PERSIST_INTERVAL = 2000;
+const PERSIST_BATCH_SIZE = 500;
+const MAX_PENDING_WRITES = 10000; // Если база недоступна — не копим бесконечно
+
+// 🕯️ Обновления свечей копим и рассылаем раз в секунду
+const BAR_BROADCAST_INTERVAL = 1000;
+
+// ⚡ Проверка окончания каскадов и рассылка их роста
+const CASCADE_TICK_INTERVAL = 1000;
+
+// 🔁 Досылка пропущенного после переподключения: последние ликвидации с seq в памяти,
+// более старое (или после перезапуска сервера) — из хранилища
+const REPLAY_BUFFER_SIZE = 5000;
+const REPLAY_STORAGE_LIMIT = 1000;
+
+// 🔥 Liquidation Delta рынка пересчитывается раз в минуту по часовому окну
+const DELTA_CALC_INTERVAL = 60 * 1000;
+const MARKET_DELTA_WINDOW: DeltaWindow = '1h';
+
+// ⏱️ Скользящие окна статистики
+export const STATS_WINDOW_MS: Record<StatsWindow, number> = {
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+};
+
+function emptyWindowStats(): WindowStats {
+  return { longs: 0, shorts: 0, longCount: 0, shortCount: 0 };
+}
+
+// Последняя ликвидация по символу — для цены в статистике символа
+interface LastLiquidation {
+  price: number;
+  timestamp: number;
+}
+
+interface SequencedLiquidation {
+  seq: number;
+  liquidation: Liquidation;
+}
+
+// Состояние клиента /ws
+interface ClientSession {
+  filter: LiquidationSubscription | null; // null — отписан от ликвидаций; {} — все
+  symbol: string | null;                  // 🎯 Монета для symbolStats
+  priceSymbols: string[];                 // 💰 Чьи цены присылать
+  klines: { symbol: string; interval: KlineInterval } | null; // 🕯️ Чьи свечи присылать
+  bars: { symbols: string[]; intervals: BarInterval[] | null } | null; // 📊 Чьи свечи ликвидаций (null в intervals — все)
+}
+
+export interface LiquidationServiceOptions {
+  adapters?: ExchangeAdapter[];
+  storage?: IStorage;
+  cascade?: CascadeDetectorOptions;
+  alerts?: AlertEngine;
+  priceFeed?: PriceFeed;
+  openInterest?: OpenInterestTracker;
+  klines?: KlineService;
+  recorder?: SessionRecorder; // ⏺️ Писать поток в файл
+  replay?: ReplaySource;      // ⏯️ Источник — запись; он же должен быть среди adapters
+}
 
 export class LiquidationService {
-  private clients: Set<WebSocket> = new Set();
-  private binanceWs: WebSocket | null = null;
-  private marketStats: MarketStats = {
+  private clients: Map<WebSocket, ClientSession> = new Map();
+  private dirtySymbols: Set<string> = new Set();
+  private lastLiquidations: Map<string, LastLiquidation> = new Map();
+  private adapters: ExchangeAdapter[];
+  private storage: IStorage;
+  private pendingWrites: Liquidation[] = [];
+  private isFlushing = false;
+  private bars = new LiquidationBarAggregator();
+  private cascades: CascadeDetector;
+  private alerts: AlertEngine;
+  private priceFeed: PriceFeed;
+  private openInterest: OpenInterestTracker;
+  private klines: KlineService;
+  private recorder: SessionRecorder | null;
+  private replay: ReplaySource | null;
+  private marketStats: MarketStats & { windows: Record<StatsWindow, WindowStats> } = {
     totalLongs: 0,
     totalShorts: 0,
     activeLiquidations: 0,
     longShortRatio: { longs: 0, shorts: 0 },
-    volumeHistory: [],   // ✅ оставляем, чтобы фронт не падал
+    volumeHistory: [],   // Заполняется минутными свечами (см. refreshMarketStats)
     priceMovementDelta: {
       lastPrice: 0,
       priceChange: 0,
       longsPerPriceUnit: 0,
       shortsPerPriceUnit: 0,
       deltaRatio: 1,
-    }
+    },
+    windows: {
+      '1h': emptyWindowStats(),
+      '4h': emptyWindowStats(),
+      '24h': emptyWindowStats(),
+    },
   };
 
   private recentLiquidations: Liquidation[] = [];
-  private statsResetInterval: ReturnType<typeof setInterval> | null = null;
-  private statsStartTime: number = Date.now();
-  
-  // 🔥 НОВОЕ: Трекинг цены и ликвидаций для расчета delta
-  private priceTracking = {
-    btcPrice: 0,
-    startPrice: 0,
-    startTime: Date.now(),
-    longsInPeriod: 0,
-    shortsInPeriod: 0,
-  };
+  private readonly startedAt = Date.now();
 
-  constructor(private wss: WebSocketServer) {
+  // 🔁 Нумерация исходящих ликвидаций (с нуля при каждом запуске — поэтому instanceId)
+  private readonly instanceId = randomUUID();
+  private seq = 0;
+  private replayBuffer: SequencedLiquidation[] = [];
+
+  // 🔥 Ликвидации на 1% движения цены по символам и по рынку
+  private delta = new LiquidationDeltaTracker();
+
+  constructor(private wss: WebSocketServer, options: LiquidationServiceOptions = {}) {
+    this.adapters = options.adapters ?? createExchangeAdapters();
+    this.storage = options.storage ?? defaultStorage;
+    this.cascades = new CascadeDetector(options.cascade ?? cascadeOptionsFromEnv());
+    this.alerts = options.alerts ?? new AlertEngine(this.storage);
+    this.priceFeed = options.priceFeed ?? new PriceFeed();
+    this.openInterest = options.openInterest ?? new OpenInterestTracker();
+    this.klines = options.klines ?? new KlineService();
+    this.recorder = options.recorder ?? null;
+    this.replay = options.replay ?? null;
     this.setupWebSocketServer();
-    this.connectToBinance();
+    // ⏯️ Позиция воспроизведения — всем клиентам
+    this.replay?.onStateChange((state) => this.broadcast({ type: 'replay', data: state }));
+    this.connectAdapters();
+    this.priceFeed.connect((updates) => this.processPrices(updates));
+    this.openInterest.start();
+    this.klines.start((symbol, interval, kline) => this.processKline(symbol, interval, kline));
     // 🔥 ПРИМЕЧАНИЕ: Binance не предоставляет публичный REST API для исторических ликвидаций
     // Требуется API ключ. Используем только WebSocket real-time данные.
-    // Для хранения истории между перезапусками можно использовать PostgreSQL.
+    // История между перезапусками хранится в PostgreSQL (см. storage.ts).
+    this.loadRecentLiquidations();
+    this.restoreStats();
+    this.alerts.load();
+    this.startPersistence();
+    this.startBarUpdates();
     this.startStatsUpdates();
-    this.startStatsReset();
-    this.startDeltaCalculation(); // ✅ НОВОЕ: Отдельный таймер для расчета метрики
+    this.startCascadeUpdates();
+    this.startDeltaCalculation();
   }
 
   private setupWebSocketServer() {
     this.wss.on('connection', (ws: WebSocket) => {
       console.log('Client connected to liquidation feed');
-      this.clients.add(ws);
+      // Пока клиент не прислал subscribe — получает все ликвидации, как раньше
+      this.clients.set(ws, { filter: {}, symbol: null, priceSymbols: [], klines: null, bars: null });
+
+      this.send(ws, {
+        type: 'hello',
+        data: { instanceId: this.instanceId, seq: this.seq }
+      });
 
       // Отправляем текущие статистики сразу
-      ws.send(JSON.stringify({
+      this.refreshMarketStats();
+      this.send(ws, {
         type: 'marketStats',
         data: this.marketStats
-      }));
+      });
 
       // Отправляем последние ликвидации
-      ws.send(JSON.stringify({
+      this.send(ws, {
         type: 'recentLiquidations',
         data: this.recentLiquidations.slice(-10)
-      }));
+      });
+
+      // ⚡ Идущие сейчас каскады
+      for (const cascade of this.cascades.getActive()) {
+        this.send(ws, { type: 'cascade', data: cascade });
+      }
+
+      // ⏯️ Клиент показывает панель воспроизведения, только если получил replay
+      if (this.replay) {
+        this.send(ws, { type: 'replay', data: this.replay.getState() });
+      }
+
+      ws.on('message', (raw) => this.handleClientMessage(ws, raw.toString()));
 
       ws.on('close', () => {
-        this.clients.delete(ws);
+        this.removeClient(ws);
         console.log('Client disconnected from liquidation feed');
       });
 
       ws.on('error', (error) => {
         console.error('WebSocket error:', error);
-        this.clients.delete(ws);
+        this.removeClient(ws);
       });
     });
   }
 
-  private connectToBinance() {
-    const binanceUrl = 'wss://fstream.binance.com/ws/!forceOrder@arr';
-    
+  // 🕯️ Поток свечей закрывается, когда на него больше никто не смотрит
+  private removeClient(ws: WebSocket) {
+    const session = this.clients.get(ws);
+    if (session?.klines) {
+      this.klines.unwatch(session.klines.symbol, session.klines.interval);
+    }
+    this.clients.delete(ws);
+  }
+
+  // Сообщения клиента по протоколу из shared/wsProtocol.ts
+  private handleClientMessage(ws: WebSocket, raw: string) {
+    const session = this.clients.get(ws);
+    if (!session) return;
+
+    let json: unknown;
     try {
-      this.binanceWs = new WebSocket(binanceUrl);
+      json = JSON.parse(raw);
+    } catch {
+      this.send(ws, { type: 'error', error: 'Invalid JSON' });
+      return;
+    }
 
-      this.binanceWs.on('open', () => {
-        console.log('Connected to Binance liquidation stream');
-      });
+    const parsed = clientMessageSchema.safeParse(json);
+    if (!parsed.success) {
+      this.send(ws, { type: 'error', error: fromZodError(parsed.error).toString() });
+      return;
+    }
 
-      this.binanceWs.on('message', (data: Buffer) => {
-        try {
-          const message = JSON.parse(data.toString());
-          if (message.o) {
-            const liquidation = this.parseBinanceLiquidation(message.o);
-            // Обрабатываем только валидные ликвидации
-            if (liquidation) {
-              this.processLiquidation(liquidation);
-            }
-          }
-        } catch (error) {
-          console.error('Error parsing Binance message:', error);
+    const message = parsed.data;
+    switch (message.type) {
+      case 'subscribe': {
+        const filter = message.filter;
+        session.filter = filter;
+        this.send(ws, { type: 'subscribed', data: filter });
+        // Буфер последних ликвидаций — уже под новый фильтр
+        this.send(ws, {
+          type: 'recentLiquidations',
+          data: this.recentLiquidations.filter(liquidation => matchesSubscription(liquidation, filter)).slice(-10)
+        });
+        break;
+      }
+
+      case 'unsubscribe':
+        session.filter = null;
+        this.send(ws, { type: 'subscribed', data: null });
+        break;
+
+      // 🎯 Клиент выбрал монету — шлем ему ее статистику
+      case 'selectSymbol':
+        session.symbol = message.symbol || null;
+        if (session.symbol) {
+          this.sendSymbolStats(session.symbol, [ws]);
         }
-      });
+        break;
 
-      this.binanceWs.on('error', (error) => {
-        console.error('Binance WebSocket error:', error);
-        setTimeout(() => this.connectToBinance(), 5000);
-      });
+      case 'resume':
+        this.resume(ws, session, message);
+        break;
+
+      // 💰 Сразу шлем известные цены, дальше — обновления из ценового потока
+      case 'watchPrices':
+        session.priceSymbols = message.symbols;
+        if (message.symbols.length > 0) {
+          this.send(ws, { type: 'prices', data: this.priceFeed.getPrices(message.symbols) });
+        }
+        break;
 
-      this.binanceWs.on('close', () => {
-        console.log('Binance connection closed, reconnecting...');
-        setTimeout(() => this.connectToBinance(), 5000);
+      // 🕯️ Один символ/интервал на соединение: новый заменяет прошлый
+      case 'watchKlines':
+      case 'unwatchKlines': {
+        const next = message.type === 'watchKlines' ? { symbol: message.symbol, interval: message.interval } : null;
+        const prev = session.klines;
+        if (prev?.symbol === next?.symbol && prev?.interval === next?.interval) break;
+        if (next) this.klines.watch(next.symbol, next.interval);
+        if (prev) this.klines.unwatch(prev.symbol, prev.interval);
+        session.klines = next;
+        break;
+      }
+
+      case 'watchBars':
+        session.bars = { symbols: message.symbols, intervals: message.intervals?.length ? message.intervals : null };
+        break;
+
+      case 'unwatchBars':
+        session.bars = null;
+        break;
+    }
+  }
+
+  // 🔁 Досылаем ликвидации, пропущенные клиентом за время разрыва
+  private async resume(ws: WebSocket, session: ClientSession, request: Extract<ClientMessage, { type: 'resume' }>) {
+    const seq = this.seq;
+    const filter = session.filter;
+    if (!filter) {
+      this.send(ws, { type: 'resync', data: { liquidations: [], seq, complete: true } });
+      return;
+    }
+
+    // Тот же процесс и разрыв короче буфера — все есть в памяти
+    const oldestSeq = this.replayBuffer.length > 0 ? this.replayBuffer[0].seq : seq + 1;
+    if (request.instanceId === this.instanceId && request.seq >= oldestSeq - 1) {
+      const missed = this.replayBuffer
+        .filter(entry => entry.seq > request.seq && matchesSubscription(entry.liquidation, filter))
+        .map(entry => entry.liquidation);
+      this.send(ws, { type: 'resync', data: { liquidations: missed, seq, complete: true } });
+      return;
+    }
+
+    // Сервер перезапускался или разрыв длиннее буфера — ищем по времени в хранилище.
+    // Буфер тоже просматриваем: там то, что еще не записано (см. startPersistence)
+    const buffered = this.replayBuffer
+      .filter(entry => entry.liquidation.timestamp >= request.timestamp && matchesSubscription(entry.liquidation, filter))
+      .map(entry => entry.liquidation);
+    const side = filter.sides?.length === 1 && (filter.sides[0] === 'long' || filter.sides[0] === 'short')
+      ? filter.sides[0]
+      : undefined;
+
+    let stored: Liquidation[] = [];
+    let complete = true;
+    try {
+      stored = await this.storage.getLiquidations({
+        symbols: filter.symbols?.length ? filter.symbols : undefined,
+        exchanges: filter.exchanges?.length ? filter.exchanges : undefined,
+        side,
+        minValue: filter.minValue,
+        from: request.timestamp,
+        limit: REPLAY_STORAGE_LIMIT,
       });
-    } catch (error) {
-      console.error('Failed to connect to Binance:', error);
-      setTimeout(() => this.connectToBinance(), 5000);
+      complete = stored.length < REPLAY_STORAGE_LIMIT;
+    } catch (error: any) {
+      console.error('❌ Ошибка досылки ликвидаций из хранилища:', error.message);
+      complete = false;
+    }
+
+    const byId = new Map<string, Liquidation>();
+    for (const liquidation of [...stored, ...buffered]) {
+      if (matchesSubscription(liquidation, filter)) {
+        byId.set(liquidation.id, liquidation);
+      }
+    }
+    const missed = Array.from(byId.values()).sort((a, b) => a.timestamp - b.timestamp);
+    this.send(ws, { type: 'resync', data: { liquidations: missed, seq, complete } });
+  }
+
+  // Запускаем все источники; их ликвидации сливаются в общий поток processLiquidation
+  private connectAdapters() {
+    for (const adapter of this.adapters) {
+      adapter.connect((liquidation) => this.processLiquidation(liquidation));
     }
   }
 
@@ -138,7 +380,7 @@ export class LiquidationService {
           
           // Преобразуем в наш формат
           for (const order of orders) {
-            const liquidation = this.parseBinanceLiquidation(order);
+            const liquidation = parseBinanceLiquidation(order);
             if (liquidation) {
               this.recentLiquidations.push(liquidation);
               totalLoaded++;
@@ -158,134 +400,300 @@ export class LiquidationService {
     }
   }
 
-  private parseBinanceLiquidation(data: any): Liquidation | null {
-    // Поддержка двух форматов: WebSocket (data.s) и REST API (data.symbol)
-    const symbol = data.s || data.symbol;
-    
-    // 🔥 DEBUG: Логируем ВСЕ символы для отладки
-    if (Math.random() < 0.1) { // Логируем 10% для уменьшения спама
-      console.log(`📊 Received liquidation: ${symbol}`);
+  // 💾 Восстанавливаем последние ликвидации из хранилища после перезапуска
+  private async loadRecentLiquidations() {
+    try {
+      const history = await this.storage.getLiquidations({ limit: 30 });
+      this.recentLiquidations = [...history.reverse(), ...this.recentLiquidations].slice(-30);
+      if (history.length > 0) {
+        console.log(`💾 Восстановлено ${history.length} ликвидаций из хранилища`);
+      }
+    } catch (error: any) {
+      console.error('❌ Ошибка загрузки истории ликвидаций:', error.message);
     }
-    
-    // 🔥 PHASE 3: Разрешаем все символы (включая Unicode: 币安人生USDT, KAITO и т.д.)
-    // Проверяем что символ заканчивается на USDT, BUSD, USD или USDC
-    const isValidSymbol = /(USDT|BUSD|USDC|USD)$/.test(symbol);
-    
-    if (!isValidSymbol) {
-      console.log(`Пропущен символ без стейблкоина: ${symbol}`);
-      return null;
+  }
+
+  // ⏱️ Окна 1h/4h/24h переживают перезапуск: поднимаем минутные свечи за сутки из хранилища.
+  // Берем только то, что было до старта — живые ликвидации уже попадают в свечи сами
+  private async restoreStats() {
+    try {
+      const minuteBars = await this.storage.getMinuteBars(this.startedAt - STATS_WINDOW_MS['24h'], this.startedAt);
+      this.bars.seed(minuteBars);
+      this.refreshMarketStats();
+      if (minuteBars.length > 0) {
+        console.log(`💾 Статистика восстановлена из ${minuteBars.length} минутных свечей`);
+      }
+    } catch (error: any) {
+      console.error('❌ Ошибка восстановления статистики:', error.message);
     }
-    
-    // Проверка на корректность числовых значений
-    // WebSocket: data.q, REST API: data.origQty
-    const quantity = parseFloat(data.q || data.origQty);
-    // WebSocket: data.p, REST API: data.price
-    const price = parseFloat(data.p || data.price);
-    
-    if (isNaN(quantity) || isNaN(price) || quantity <= 0 || price <= 0) {
-      console.log(`Пропущены некорректные данные: ${symbol}, q=${data.q || data.origQty}, p=${data.p || data.price}`);
-      return null;
+  }
+
+  // 💾 Пишем ликвидации пачками, а не по одной на каждое сообщение биржи
+  private startPersistence() {
+    setInterval(() => this.flushPendingWrites(), PERSIST_INTERVAL);
+  }
+
+  private async flushPendingWrites() {
+    if (this.isFlushing || this.pendingWrites.length === 0) return;
+
+    this.isFlushing = true;
+    const batch = this.pendingWrites.splice(0, PERSIST_BATCH_SIZE);
+    try {
+      await this.storage.insertLiquidations(batch);
+    } catch (error: any) {
+      console.error(`❌ Ошибка записи ${batch.length} ликвидаций:`, error.message);
+      // Возвращаем пачку в очередь, старые записи отбрасываем при переполнении
+      this.pendingWrites = [...batch, ...this.pendingWrites].slice(-MAX_PENDING_WRITES);
+    } finally {
+      this.isFlushing = false;
     }
-    
-    // WebSocket: data.E, REST API: data.time
-    const timestamp = data.E || data.time || Date.now();
-    // WebSocket: data.S, REST API: data.side
-    const side = (data.S || data.side) === 'SELL' ? 'long' : 'short';
-    
-    return {
-      id: `${timestamp}-${symbol}-${Math.random()}`,
-      timestamp: timestamp,
-      symbol: symbol,
-      exchange: 'binance',
-      side: side,
-      size: quantity,
-      price: price,
-      value: quantity * price,
-    };
   }
 
   private processLiquidation(liquidation: Liquidation) {
+    // 📊 OI и funding на момент ликвидации (повторно пришедшая уже со снимком).
+    // OI есть только у контрактов Binance — их знает ценовой поток
+    if (this.isKnownSymbol(liquidation.symbol)) {
+      this.openInterest.track(liquidation.symbol);
+    }
+    if (liquidation.context === undefined) {
+      liquidation = { ...liquidation, context: this.getMarketContext(liquidation.symbol) };
+    }
+
     // ✅ Ограничиваем массив сразу (не даем накапливаться до 100)
     this.recentLiquidations.push(liquidation);
     if (this.recentLiquidations.length > 30) { // Уменьшено с 100 до 30
       this.recentLiquidations.shift();
     }
 
-    // Обновляем статистику
-    if (liquidation.side === 'long') {
-      this.marketStats.totalLongs += liquidation.value;
-      this.marketStats.longShortRatio.longs++;
-      this.priceTracking.longsInPeriod += liquidation.value;
-    } else {
-      this.marketStats.totalShorts += liquidation.value;
-      this.marketStats.longShortRatio.shorts++;
-      this.priceTracking.shortsInPeriod += liquidation.value;
+    this.recorder?.recordLiquidation(liquidation);
+
+    this.pendingWrites.push(liquidation);
+    if (this.pendingWrites.length >= PERSIST_BATCH_SIZE) {
+      this.flushPendingWrites();
     }
 
-    this.marketStats.activeLiquidations++;
+    this.bars.add(liquidation);
 
-    // 🔥 Трекаем цену BTC (обновляем БЕЗ расчета метрики)
-    if (liquidation.symbol === 'BTCUSDT') {
-      this.priceTracking.btcPrice = liquidation.price;
-      
-      // Инициализируем стартовую цену если это первая ликвидация BTC
-      if (this.priceTracking.startPrice === 0) {
-        this.priceTracking.startPrice = liquidation.price;
-        this.priceTracking.startTime = Date.now();
+    this.alerts.onLiquidation(liquidation);
+
+    const cascade = this.cascades.add(liquidation);
+    if (cascade) {
+      console.log(`⚡ Каскад ${cascade.symbol}: ${cascade.count} ликвидаций ${cascade.side}, $${(cascade.totalValue / 1000000).toFixed(2)}M`);
+      this.publishCascade(cascade);
+    }
+
+    const last = this.lastLiquidations.get(liquidation.symbol);
+    if (!last || liquidation.timestamp >= last.timestamp) {
+      this.lastLiquidations.set(liquidation.symbol, { price: liquidation.price, timestamp: liquidation.timestamp });
+    }
+    this.dirtySymbols.add(liquidation.symbol);
+
+    // Обновляем статистику (точный пересчет окон — в refreshMarketStats)
+    for (const window of STATS_WINDOWS) {
+      const stats = this.marketStats.windows[window];
+      if (liquidation.side === 'long') {
+        stats.longs += liquidation.value;
+        stats.longCount++;
+      } else {
+        stats.shorts += liquidation.value;
+        stats.shortCount++;
       }
-      // ✅ Расчет метрики вынесен на отдельный таймер (см. startDeltaCalculation)
     }
+    this.syncTotals();
+
+    this.delta.addLiquidation(liquidation);
+
+    this.marketStats.activeLiquidations++;
 
     // ✅ Логирование каждой 100-й ликвидации (было каждая 10я - уменьшаем нагрузку)
     if (this.marketStats.activeLiquidations % 100 === 0) {
       console.log(`Обработано ликвидаций: ${this.marketStats.activeLiquidations}, Longs: $${(this.marketStats.totalLongs/1000000).toFixed(2)}M, Shorts: $${(this.marketStats.totalShorts/1000000).toFixed(2)}M`);
     }
 
-    // Отправляем клиентам новую ликвидацию
-    this.broadcast({
-      type: 'liquidation',
-      data: liquidation
+    const seq = ++this.seq;
+    this.replayBuffer.push({ seq, liquidation });
+    if (this.replayBuffer.length > REPLAY_BUFFER_SIZE) {
+      this.replayBuffer.shift();
+    }
+
+    // Отправляем новую ликвидацию тем, чей фильтр она проходит
+    const data = JSON.stringify({ type: 'liquidation', seq, data: liquidation } satisfies ServerMessage);
+    this.clients.forEach((session, client) => {
+      if (session.filter && matchesSubscription(liquidation, session.filter) && client.readyState === WebSocket.OPEN) {
+        client.send(data);
+      }
     });
   }
 
-  // 🔥 ОПТИМИЗАЦИЯ: Расчет ликвидаций на единицу движения цены (раз в час)
-  private calculatePriceMovementDelta() {
-    const priceChange = Math.abs(this.priceTracking.btcPrice - this.priceTracking.startPrice);
-    
-    // Избегаем деления на 0
-    if (priceChange > 10) { // Минимальное движение $10
-      const longsPerDollar = this.priceTracking.longsInPeriod / priceChange;
-      const shortsPerDollar = this.priceTracking.shortsInPeriod / priceChange;
-      
-      this.marketStats.priceMovementDelta = {
-        lastPrice: this.priceTracking.btcPrice,
-        priceChange: this.priceTracking.btcPrice - this.priceTracking.startPrice,
-        longsPerPriceUnit: longsPerDollar,
-        shortsPerPriceUnit: shortsPerDollar,
-        deltaRatio: shortsPerDollar > 0 ? longsPerDollar / shortsPerDollar : 1,
-      };
-      
-      console.log(`💰 Price Delta: BTC ${this.priceTracking.btcPrice.toFixed(0)}, Δ${priceChange.toFixed(0)}, Longs/$ ${longsPerDollar.toFixed(0)}, Shorts/$ ${shortsPerDollar.toFixed(0)}`);
+  // 💰 Обновления mark price: цена для delta и рассылка тем, кто следит за символом
+  private processPrices(updates: SymbolPrice[]) {
+    const now = Date.now();
+    for (const update of updates) {
+      this.delta.addPrice(update.symbol, update.price, now);
+      this.klines.addPrice(update.symbol, update.price, now);
     }
-    
-    // Сбрасываем трекинг для нового периода
-    this.priceTracking.startPrice = this.priceTracking.btcPrice;
-    this.priceTracking.startTime = Date.now();
-    this.priceTracking.longsInPeriod = 0;
-    this.priceTracking.shortsInPeriod = 0;
+
+    this.clients.forEach((session, client) => {
+      if (session.priceSymbols.length === 0 || client.readyState !== WebSocket.OPEN) return;
+      const watched = updates.filter(update => session.priceSymbols.includes(update.symbol));
+      if (watched.length > 0) {
+        this.send(client, { type: 'prices', data: watched });
+      }
+    });
+  }
+
+  // 📊 Снимок OI и funding символа. OI и mark price — с Binance для всех бирж:
+  // она держит большую часть открытого интереса, и символы у всех приведены к ее виду
+  private getMarketContext(symbol: string): MarketContext | null {
+    const price = this.priceFeed.getPrice(symbol);
+    const oi = this.openInterest.getLatest(symbol);
+    if (!price && !oi) return null;
+
+    return {
+      openInterest: oi?.openInterest ?? null,
+      openInterestValue: oi && price ? oi.openInterest * price.price : null,
+      fundingRate: price?.fundingRate ?? null,
+    };
+  }
+
+  // 🕯️ Обновление свечи — тем, кто смотрит этот символ/интервал
+  private processKline(symbol: string, interval: KlineInterval, kline: Kline) {
+    this.recorder?.recordKline({ symbol, interval, kline }, () => this.klines.getCached(symbol, interval));
+
+    let data: string | null = null;
+    this.clients.forEach((session, client) => {
+      if (session.klines?.symbol !== symbol || session.klines.interval !== interval || client.readyState !== WebSocket.OPEN) return;
+      data ??= JSON.stringify({ type: 'kline', data: { symbol, interval, kline } } satisfies ServerMessage);
+      client.send(data);
+    });
+  }
+
+  // 🔥 Liquidation Delta рынка за час — в marketStats и для алертов по deltaRatio
+  private calculatePriceMovementDelta() {
+    const now = Date.now();
+    this.delta.prune(now);
+
+    // null — цена почти не двигалась; окно только с лонгами приходит как DELTA_RATIO_CAP,
+    // так что правила 'above' срабатывают и на чистом long squeeze
+    const delta = this.delta.getDelta(MARKET_SYMBOL, MARKET_DELTA_WINDOW, now);
+    if (!delta || delta.deltaRatio === null) return;
+
+    this.marketStats.priceMovementDelta = {
+      lastPrice: delta.lastPrice,
+      priceChange: delta.priceChangePercent,
+      longsPerPriceUnit: delta.longsPerPercent ?? 0,
+      shortsPerPriceUnit: delta.shortsPerPercent ?? 0,
+      deltaRatio: delta.deltaRatio,
+    };
+    this.alerts.onDeltaRatio(delta.deltaRatio, now);
   }
 
-  // ✅ НОВОЕ: Отдельный таймер для расчета метрики каждый час
   private startDeltaCalculation() {
-    // Первый расчет через 5 минут после старта (накопим данные)
-    setTimeout(() => {
-      this.calculatePriceMovementDelta();
-      
-      // Затем каждый час
-      setInterval(() => {
-        this.calculatePriceMovementDelta();
-      }, 60 * 60 * 1000); // 1 час
-    }, 5 * 60 * 1000); // 5 минут
+    setInterval(() => this.calculatePriceMovementDelta(), DELTA_CALC_INTERVAL);
+  }
+
+  // 🕯️ Изменившиеся свечи пачкой раз в секунду — только подписанным через watchBars и только их символы.
+  // Там же — статистика символов, по которым были ликвидации за секунду
+  private startBarUpdates() {
+    setInterval(() => {
+      const updates = this.bars.takeUpdates();
+      if (updates.length > 0) {
+        this.sendBarUpdates(updates);
+      }
+
+      this.sendSelectedSymbolStats(this.dirtySymbols);
+      this.dirtySymbols.clear();
+    }, BAR_BROADCAST_INTERVAL);
+  }
+
+  private startCascadeUpdates() {
+    setInterval(() => {
+      for (const cascade of this.cascades.tick()) {
+        this.publishCascade(cascade);
+      }
+    }, CASCADE_TICK_INTERVAL);
+  }
+
+  // ⚡ Сохраняем и рассылаем; клиентам с фильтром по символам — только их символы
+  private publishCascade(cascade: Cascade) {
+    this.storage.saveCascade(cascade).catch((error: any) => {
+      console.error(`❌ Ошибка записи каскада ${cascade.id}:`, error.message);
+    });
+
+    const data = JSON.stringify({ type: 'cascade', data: cascade } satisfies ServerMessage);
+    this.clients.forEach(({ filter }, client) => {
+      const symbols = filter?.symbols;
+      if ((!symbols?.length || symbols.includes(cascade.symbol)) && client.readyState === WebSocket.OPEN) {
+        client.send(data);
+      }
+    });
+  }
+
+  private sendBarUpdates(updates: LiquidationBar[]) {
+    this.clients.forEach(({ bars }, client) => {
+      if (!bars) return;
+      const data = updates.filter(bar =>
+        bars.symbols.includes(bar.symbol) && (!bars.intervals || bars.intervals.includes(bar.interval))
+      );
+      if (data.length > 0) {
+        this.send(client, { type: 'liquidationBars', data });
+      }
+    });
+  }
+
+  // Клиенты, выбравшие символ из symbols (без аргумента — все с выбранным символом)
+  private sendSelectedSymbolStats(symbols?: Set<string>) {
+    const subscribers = new Map<string, WebSocket[]>();
+    this.clients.forEach(({ symbol }, ws) => {
+      if (!symbol || (symbols && !symbols.has(symbol))) return;
+      const list = subscribers.get(symbol) ?? [];
+      list.push(ws);
+      subscribers.set(symbol, list);
+    });
+    subscribers.forEach((clients, symbol) => this.sendSymbolStats(symbol, clients));
+  }
+
+  private async sendSymbolStats(symbol: string, clients: WebSocket[]) {
+    try {
+      const data = JSON.stringify({
+        type: 'symbolStats',
+        data: await this.getSymbolStats(symbol)
+      } satisfies ServerMessage);
+      for (const client of clients) {
+        // Клиент мог за это время переключиться на другой символ
+        if (client.readyState === WebSocket.OPEN && this.clients.get(client)?.symbol === symbol) {
+          client.send(data);
+        }
+      }
+    } catch (error: any) {
+      console.error(`❌ Ошибка статистики ${symbol}:`, error.message);
+    }
+  }
+
+  // Пересчет скользящих окон и volumeHistory по минутным свечам всего рынка
+  private refreshMarketStats() {
+    const now = Date.now();
+    for (const window of STATS_WINDOWS) {
+      const { maxValue, ...stats } = this.bars.getWindowStats(MARKET_SYMBOL, STATS_WINDOW_MS[window], now);
+      this.marketStats.windows[window] = stats;
+    }
+    this.syncTotals();
+
+    this.marketStats.volumeHistory = this.bars
+      .getBars(MARKET_SYMBOL, '1m', { from: now - STATS_WINDOW_MS['1h'] }) // последний час
+      .map(bar => ({
+        timestamp: bar.openTime,
+        longs: bar.longValue,
+        shorts: bar.shortValue,
+      }));
+  }
+
+  // Старые поля MarketStats = окно 24h
+  private syncTotals() {
+    const day = this.marketStats.windows['24h'];
+    this.marketStats.totalLongs = day.longs;
+    this.marketStats.totalShorts = day.shorts;
+    this.marketStats.longShortRatio = { longs: day.longCount, shorts: day.shortCount };
   }
 
   private startStatsUpdates() {
@@ -293,42 +701,27 @@ export class LiquidationService {
       // 🔥 оставляем только "живую" механику активных ликвидаций
       this.marketStats.activeLiquidations = Math.max(0, this.marketStats.activeLiquidations - 5);
 
+      this.bars.prune();
+      this.refreshMarketStats();
+
       this.broadcast({
         type: 'marketStats',
         data: this.marketStats
       });
+      // Окна сдвигаются и без новых ликвидаций
+      this.sendSelectedSymbolStats();
     }, 60000); // обновление раз в минуту
   }
 
-  private startStatsReset() {
-    // Сбрасываем статистику каждые 24 часа для корректного отображения
-    this.statsResetInterval = setInterval(() => {
-      console.log('Сброс статистики за 24 часа');
-      console.log(`Было: Longs=${this.marketStats.totalLongs.toFixed(2)}, Shorts=${this.marketStats.totalShorts.toFixed(2)}`);
-      
-      // Сбрасываем накопленные значения
-      this.marketStats.totalLongs = 0;
-      this.marketStats.totalShorts = 0;
-      this.marketStats.longShortRatio.longs = 0;
-      this.marketStats.longShortRatio.shorts = 0;
-      this.statsStartTime = Date.now();
-      
-      // Сбрасываем трекинг цены
-      this.priceTracking.startPrice = this.priceTracking.btcPrice;
-      this.priceTracking.startTime = Date.now();
-      this.priceTracking.longsInPeriod = 0;
-      this.priceTracking.shortsInPeriod = 0;
-      
-      this.broadcast({
-        type: 'marketStats',
-        data: this.marketStats
-      });
-    }, 24 * 60 * 60 * 1000); // каждые 24 часа
+  private send(ws: WebSocket, message: ServerMessage) {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
   }
 
-  private broadcast(message: any) {
+  private broadcast(message: ServerMessage) {
     const data = JSON.stringify(message);
-    this.clients.forEach(client => {
+    this.clients.forEach((session, client) => {
       if (client.readyState === WebSocket.OPEN) {
         client.send(data);
       }
@@ -340,6 +733,131 @@ export class LiquidationService {
   }
 
   public getMarketStats() {
+    this.refreshMarketStats();
     return this.marketStats;
   }
+
+  // 🎯 Статистика одного символа по минутным свечам за каждое окно
+  public async getSymbolStats(symbol: string, now = Date.now()): Promise<SymbolStats> {
+    const last = await this.getLastLiquidation(symbol);
+    const windows = {} as SymbolStats['windows'];
+
+    for (const window of STATS_WINDOWS) {
+      const { maxValue, ...stats } = this.bars.getWindowStats(symbol, STATS_WINDOW_MS[window], now);
+      windows[window] = {
+        ...stats,
+        largest: maxValue,
+        // Последняя ликвидация символа — она же последняя в любом окне, куда попала
+        lastPrice: last && last.timestamp > now - STATS_WINDOW_MS[window] ? last.price : null,
+      };
+    }
+
+    return {
+      symbol,
+      lastLiquidationAt: last?.timestamp ?? null,
+      windows,
+    };
+  }
+
+  // После перезапуска последней ликвидации символа в памяти нет — берем из хранилища
+  private async getLastLiquidation(symbol: string): Promise<LastLiquidation | undefined> {
+    const cached = this.lastLiquidations.get(symbol);
+    if (cached) return cached;
+
+    const [latest] = await this.storage.getLiquidations({ symbols: [symbol], limit: 1 });
+    if (!latest) return undefined;
+
+    const last = { price: latest.price, timestamp: latest.timestamp };
+    if (!this.lastLiquidations.has(symbol)) {
+      this.lastLiquidations.set(symbol, last);
+    }
+    return this.lastLiquidations.get(symbol);
+  }
+
+  public getLiquidationBars(symbol: string, interval: BarInterval, range: BarRange) {
+    return this.bars.getBars(symbol, interval, range);
+  }
+
+  public getAdapterHealth() {
+    return this.adapters.map(adapter => adapter.getHealth());
+  }
+
+  // 🔥 Текущее значение и история за hours часов (шаг 5 минут)
+  public getLiquidationDelta(symbol: string, window: DeltaWindow, hours: number) {
+    return {
+      current: this.delta.getDelta(symbol, window),
+      history: this.delta.getHistory(symbol, window, hours * 60 * 60 * 1000),
+    };
+  }
+
+  // Символ есть среди фьючерсов Binance (по нему приходит mark price)
+  public isKnownSymbol(symbol: string): boolean {
+    return this.priceFeed.getPrice(symbol) !== undefined;
+  }
+
+  // 📊 OI символа, его изменение и ликвидации за каждое окно статистики.
+  // Запрос начинает опрос OI символа, если есть свободное место — отслеживаемые ради него не вытесняются
+  public getOpenInterestStats(symbol: string, now = Date.now()): OpenInterestStats {
+    this.openInterest.track(symbol, now, { evict: false });
+    const context = this.getMarketContext(symbol);
+    const price = this.priceFeed.getPrice(symbol);
+    const windows = {} as OpenInterestStats['windows'];
+
+    for (const window of STATS_WINDOWS) {
+      const stats = this.bars.getWindowStats(symbol, STATS_WINDOW_MS[window], now);
+      const liquidations = stats.longs + stats.shorts;
+      windows[window] = {
+        oiChangePercent: this.openInterest.getChangePercent(symbol, STATS_WINDOW_MS[window], now),
+        liquidations,
+        liquidationsToOi: context?.openInterestValue ? liquidations / context.openInterestValue * 100 : null,
+      };
+    }
+
+    return {
+      symbol,
+      openInterest: context?.openInterest ?? null,
+      openInterestValue: context?.openInterestValue ?? null,
+      fundingRate: context?.fundingRate ?? null,
+      nextFundingTime: price?.nextFundingTime ?? null,
+      timestamp: this.openInterest.getLatest(symbol)?.timestamp ?? null,
+      windows,
+    };
+  }
+
+  public getOpenInterestHealth() {
+    return this.openInterest.getHealth();
+  }
+
+  public getKlines(symbol: string, interval: KlineInterval, limit: number) {
+    return this.klines.getKlines(symbol, interval, limit);
+  }
+
+  public getKlineHealth() {
+    return this.klines.getHealth();
+  }
+
+  // ⏯️ null — сервер запущен не в режиме воспроизведения
+  public getReplayState() {
+    return this.replay?.getState() ?? null;
+  }
+
+  public controlReplay(control: ReplayControl) {
+    return this.replay?.control(control) ?? null;
+  }
+
+  public getRecorderHealth() {
+    return this.recorder?.getHealth() ?? null;
+  }
+
+  public getPrices(symbols?: string[]) {
+    return this.priceFeed.getPrices(symbols);
+  }
+
+  public getPrice(symbol: string) {
+    return this.priceFeed.getPrice(symbol);
+  }
+
+  public getPriceFeedHealth() {
+    return this.priceFeed.getHealth();
+  }
 }
@@ -0,0 +1,218 @@
+import fs from 'fs';
+import { SYMBOL_PATTERN } from '@shared/schema';
+import { FIXTURE_PREFIX } from './exchanges';
+
+// Открытый интерес Binance по одному символу и его 5-минутная история (до 30 дней)
+export const BINANCE_OPEN_INTEREST_URL = 'https://fapi.binance.com/fapi/v1/openInterest';
+export const BINANCE_OPEN_INTEREST_HISTORY_URL = 'https://fapi.binance.com/futures/data/openInterestHist';
+
+const MINUTE = 60 * 1000;
+const POLL_INTERVAL = MINUTE;
+const MAX_SYMBOLS = 100;            // Вес запроса — 1, но опрашивать все 300+ контрактов незачем
+const IDLE_MS = 24 * 60 * MINUTE;   // Символ без ликвидаций и без зрителей дольше суток не опрашиваем
+const EVICT_IDLE_MS = 60 * MINUTE;  // При заполненном списке место уступает только символ, забытый дольше часа
+const RETENTION_MS = 25 * 60 * MINUTE; // Сутки для окна 24h плюс запас на его начало
+const HISTORY_LIMIT = 300;          // 5-минутных точек — чуть больше суток
+
+export interface OpenInterestSample {
+  timestamp: number;
+  openInterest: number; // Монет в открытых позициях
+}
+
+export interface OpenInterestHealth {
+  symbols: number;
+  lastPollAt: number | null;
+  lastError: string | null;
+}
+
+export interface OpenInterestTrackerOptions {
+  url?: string;        // fixture:path.json — JSON { SYMBOL: [oi, oi, ...] }, каждый опрос берет следующее значение
+  historyUrl?: string;
+}
+
+// 📊 Открытый интерес по символам, которые сейчас интересны: где были ликвидации или на которые смотрят.
+// Binance не присылает OI по WebSocket — опрашиваем REST раз в минуту, при первом запросе символа
+// подгружаем историю за сутки, чтобы изменение OI за окна было видно сразу
+export class OpenInterestTracker {
+  private samples: Map<string, OpenInterestSample[]> = new Map();
+  private lastUsedAt: Map<string, number> = new Map();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private isPolling = false;
+  private fixture: Record<string, number[]> | null = null;
+  private fixturePolls = 0;
+  private readonly url: string;
+  private readonly historyUrl: string;
+  private health: Omit<OpenInterestHealth, 'symbols'> = {
+    lastPollAt: null,
+    lastError: null,
+  };
+
+  constructor(options: OpenInterestTrackerOptions = {}) {
+    this.url = options.url ?? (process.env.OPEN_INTEREST_URL || BINANCE_OPEN_INTEREST_URL);
+    this.historyUrl = options.historyUrl ?? (process.env.OPEN_INTEREST_HISTORY_URL || BINANCE_OPEN_INTEREST_HISTORY_URL);
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Символ опрашивается, пока его ликвидации приходят или его запрашивают.
+  // Список полон — новый символ вытесняет только давно забытый, иначе не отслеживается:
+  // поток ликвидаций по сотне монет не должен по кругу выбивать друг друга вместе с историей.
+  // evict: false — запрос только на чтение, ради него отслеживаемые символы не вытесняются
+  track(symbol: string, now = Date.now(), { evict = true }: { evict?: boolean } = {}): boolean {
+    if (!SYMBOL_PATTERN.test(symbol)) return false;
+    if (this.lastUsedAt.has(symbol)) {
+      this.lastUsedAt.set(symbol, now);
+      return true;
+    }
+    if (this.lastUsedAt.size >= MAX_SYMBOLS && !(evict && this.evictIdle(now))) {
+      return false;
+    }
+
+    this.lastUsedAt.set(symbol, now);
+    this.backfill(symbol);
+    return true;
+  }
+
+  getLatest(symbol: string): OpenInterestSample | undefined {
+    const samples = this.samples.get(symbol);
+    return samples?.[samples.length - 1];
+  }
+
+  // Изменение OI за windowMs в %; null — замера на начало окна нет
+  getChangePercent(symbol: string, windowMs: number, now = Date.now()): number | null {
+    const samples = this.samples.get(symbol);
+    const latest = samples?.[samples.length - 1];
+    if (!samples || !latest) return null;
+
+    const start = now - windowMs;
+    let base: OpenInterestSample | undefined;
+    for (const sample of samples) {
+      if (sample.timestamp > start) break;
+      base = sample;
+    }
+    if (!base || base.openInterest <= 0) return null;
+    return (latest.openInterest - base.openInterest) / base.openInterest * 100;
+  }
+
+  getHealth(): OpenInterestHealth {
+    return { ...this.health, symbols: this.lastUsedAt.size };
+  }
+
+  private async poll() {
+    if (this.isPolling) return;
+    this.isPolling = true;
+    const now = Date.now();
+
+    try {
+      this.lastUsedAt.forEach((usedAt, symbol) => {
+        if (usedAt < now - IDLE_MS) this.forget(symbol);
+      });
+      // По очереди: до 100 запросов в минуту — далеко от лимитов Binance
+      for (const symbol of Array.from(this.lastUsedAt.keys())) {
+        await this.fetchCurrent(symbol);
+      }
+      this.fixturePolls++;
+      this.health.lastPollAt = now;
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  private async backfill(symbol: string) {
+    if (!this.url.startsWith(FIXTURE_PREFIX)) {
+      try {
+        const response = await fetch(`${this.historyUrl}?symbol=${encodeURIComponent(symbol)}&period=5m&limit=${HISTORY_LIMIT}`);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const rows = await response.json();
+        this.addSamples(symbol, Array.isArray(rows) ? rows.flatMap(parseHistoryRow) : []);
+      } catch (error: any) {
+        // Без истории изменение OI появится по мере опроса
+        this.health.lastError = `${symbol} history: ${error.message}`;
+      }
+    }
+    await this.fetchCurrent(symbol);
+  }
+
+  private async fetchCurrent(symbol: string) {
+    try {
+      const sample = this.url.startsWith(FIXTURE_PREFIX)
+        ? this.readFixture(symbol)
+        : await this.fetchBinance(symbol);
+      if (sample) this.addSamples(symbol, [sample]);
+    } catch (error: any) {
+      this.health.lastError = `${symbol}: ${error.message}`;
+      console.error(`Open interest ${symbol}:`, error.message);
+    }
+  }
+
+  // Ответ: { symbol, openInterest: "81234.567", time }
+  private async fetchBinance(symbol: string): Promise<OpenInterestSample | null> {
+    const response = await fetch(`${this.url}?symbol=${encodeURIComponent(symbol)}`);
+    // 400 — такого контракта на Binance нет (монета только на других биржах)
+    if (response.status === 400) return null;
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    const body = await response.json();
+    const openInterest = parseFloat(body.openInterest);
+    if (!(openInterest >= 0)) return null;
+    return { timestamp: typeof body.time === 'number' ? body.time : Date.now(), openInterest };
+  }
+
+  private readFixture(symbol: string): OpenInterestSample | null {
+    if (!this.fixture) {
+      const path = this.url.slice(FIXTURE_PREFIX.length).split('?')[0];
+      this.fixture = JSON.parse(fs.readFileSync(path, 'utf-8'));
+    }
+    const series = this.fixture?.[symbol];
+    if (!series || series.length === 0) return null;
+    return { timestamp: Date.now(), openInterest: series[this.fixturePolls % series.length] };
+  }
+
+  // История и текущие замеры приходят вперемешку — держим массив по возрастанию времени
+  private addSamples(symbol: string, incoming: OpenInterestSample[]) {
+    if (incoming.length === 0 || !this.lastUsedAt.has(symbol)) return;
+
+    const cutoff = Date.now() - RETENTION_MS;
+    const byTime = new Map<number, OpenInterestSample>();
+    for (const sample of [...(this.samples.get(symbol) ?? []), ...incoming]) {
+      if (sample.timestamp >= cutoff) byTime.set(sample.timestamp, sample);
+    }
+    this.samples.set(symbol, Array.from(byTime.values()).sort((a, b) => a.timestamp - b.timestamp));
+  }
+
+  private evictIdle(now: number): boolean {
+    let oldest: string | null = null;
+    let oldestAt = now - EVICT_IDLE_MS;
+    this.lastUsedAt.forEach((usedAt, symbol) => {
+      if (usedAt < oldestAt) {
+        oldest = symbol;
+        oldestAt = usedAt;
+      }
+    });
+    if (!oldest) return false;
+    this.forget(oldest);
+    return true;
+  }
+
+  private forget(symbol: string) {
+    this.lastUsedAt.delete(symbol);
+    this.samples.delete(symbol);
+  }
+}
+
+// Строка openInterestHist: { symbol, sumOpenInterest, sumOpenInterestValue, timestamp }
+function parseHistoryRow(row: any): OpenInterestSample[] {
+  const openInterest = parseFloat(row?.sumOpenInterest);
+  if (!(openInterest >= 0) || typeof row.timestamp !== 'number') return [];
+  return [{ timestamp: row.timestamp, openInterest }];
+}
@@ -0,0 +1,156 @@
+import { WebSocket } from 'ws';
+import type { SymbolPrice } from '@shared/schema';
+import { AdapterSocket, FIXTURE_PREFIX, FixtureSocket } from './exchanges';
+
+// Mark price всех фьючерсов Binance раз в секунду
+export const BINANCE_MARK_PRICE_URL = 'wss://fstream.binance.com/ws/!markPrice@arr@1s';
+
+const RECONNECT_DELAY = 5000;
+
+export type PriceUpdateHandler = (updates: SymbolPrice[]) => void;
+
+export interface PriceFeedHealth {
+  connected: boolean;
+  lastMessageAt: number | null;
+  symbols: number;
+  reconnects: number;
+  lastError: string | null;
+}
+
+// Кадр markPriceUpdate: { e, E, s, p (mark), i (index), r (funding), T }
+export function parseBinanceMarkPrices(message: unknown): SymbolPrice[] {
+  const items = Array.isArray(message) ? message : [message];
+  const prices: SymbolPrice[] = [];
+  for (const item of items) {
+    if (item?.e !== 'markPriceUpdate' || typeof item.s !== 'string') continue;
+    const price = parseFloat(item.p);
+    if (!(price > 0)) continue;
+    const indexPrice = parseFloat(item.i);
+    const fundingRate = parseFloat(item.r);
+    prices.push({
+      symbol: item.s,
+      price,
+      indexPrice: indexPrice > 0 ? indexPrice : null,
+      // У квартальных контрактов funding нет — r приходит пустой строкой
+      fundingRate: isNaN(fundingRate) ? null : fundingRate,
+      nextFundingTime: typeof item.T === 'number' && item.T > 0 ? item.T : null,
+      timestamp: typeof item.E === 'number' ? item.E : Date.now(),
+    });
+  }
+  return prices;
+}
+
+// 💰 Последняя цена (и funding) по каждому символу из markPrice-потока Binance.
+// Не зависит от того, когда приходят ликвидации — по ней считается priceMovementDelta
+export class PriceFeed {
+  private prices: Map<string, SymbolPrice> = new Map();
+  private ws: AdapterSocket | null = null;
+  private onUpdate: PriceUpdateHandler | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private stopped = false;
+  private health: Omit<PriceFeedHealth, 'symbols'> = {
+    connected: false,
+    lastMessageAt: null,
+    reconnects: 0,
+    lastError: null,
+  };
+
+  // url null — без подключения: цены приходят через publish (воспроизведение записи)
+  constructor(private readonly url: string | null = process.env.PRICE_FEED_URL || BINANCE_MARK_PRICE_URL) {}
+
+  connect(onUpdate: PriceUpdateHandler) {
+    this.onUpdate = onUpdate;
+    this.stopped = false;
+    if (this.url) this.open();
+  }
+
+  publish(updates: SymbolPrice[]) {
+    for (const update of updates) {
+      this.prices.set(update.symbol, update);
+    }
+    if (updates.length > 0) {
+      this.onUpdate?.(updates);
+    }
+  }
+
+  disconnect() {
+    this.stopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    const ws = this.ws;
+    this.ws = null;
+    if (ws) {
+      ws.removeAllListeners();
+      ws.on('error', () => {});
+      ws.close();
+    }
+  }
+
+  getPrice(symbol: string): SymbolPrice | undefined {
+    return this.prices.get(symbol);
+  }
+
+  getPrices(symbols?: string[]): SymbolPrice[] {
+    if (!symbols) return Array.from(this.prices.values());
+    return symbols.flatMap(symbol => {
+      const price = this.prices.get(symbol);
+      return price ? [price] : [];
+    });
+  }
+
+  getHealth(): PriceFeedHealth {
+    return { ...this.health, symbols: this.prices.size };
+  }
+
+  private open() {
+    if (!this.url) return;
+    try {
+      const ws: AdapterSocket = this.url.startsWith(FIXTURE_PREFIX) ? new FixtureSocket(this.url) : new WebSocket(this.url);
+      this.ws = ws;
+
+      ws.on('open', () => {
+        console.log('💰 Connected to price feed');
+        this.health.connected = true;
+      });
+
+      ws.on('message', (data: Buffer) => {
+        this.health.lastMessageAt = Date.now();
+        try {
+          this.publish(parseBinanceMarkPrices(JSON.parse(data.toString())));
+        } catch (error: any) {
+          this.health.lastError = error.message;
+          console.error('Error parsing price feed message:', error);
+        }
+      });
+
+      ws.on('error', (error: Error) => {
+        this.health.lastError = error.message;
+        console.error('Price feed WebSocket error:', error.message);
+        this.scheduleReconnect(ws);
+      });
+
+      ws.on('close', () => {
+        this.scheduleReconnect(ws);
+      });
+    } catch (error: any) {
+      this.health.lastError = error.message;
+      console.error('Failed to connect to price feed:', error);
+      this.scheduleReconnect(null);
+    }
+  }
+
+  // error и close приходят парой — переподключаемся только один раз
+  private scheduleReconnect(ws: AdapterSocket | null) {
+    if (ws && ws !== this.ws) return;
+    this.health.connected = false;
+    if (this.stopped || this.reconnectTimer) return;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.health.reconnects++;
+      this.open();
+    }, RECONNECT_DELAY);
+  }
+}
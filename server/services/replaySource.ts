@@ -0,0 +1,232 @@
+import fs from 'fs';
+import path from 'path';
+import type { Liquidation, ReplayControl, ReplaySpeed, ReplayState, SymbolPrice } from '@shared/schema';
+import type { ExchangeAdapter, ExchangeAdapterHealth, LiquidationHandler } from './exchanges';
+import type { PriceUpdateHandler } from './priceFeed';
+import type { SessionRecord } from './sessionRecorder';
+import { klineFixtureKey } from './klineService';
+
+const TICK_INTERVAL = 100;
+const STATE_BROADCAST_INTERVAL = 1000; // Позицию во время воспроизведения клиенты получают раз в секунду
+
+export type ReplayStateHandler = (state: ReplayState) => void;
+
+export interface ReplaySourceOptions {
+  speed?: ReplaySpeed;
+  paused?: boolean; // Не начинать воспроизведение до команды клиента
+}
+
+type PlaybackRecord = Exclude<SessionRecord, { type: 'klineHistory' }>;
+
+// Первый по времени индекс с t - start >= position
+function recordIndexAt(records: PlaybackRecord[], time: number): number {
+  let lo = 0;
+  let hi = records.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (records[mid].t < time) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+// ⏯️ Записанная SessionRecorder сессия вместо бирж (LIQUIDATION_MODE=replay, REPLAY_FILE=...).
+// Время ликвидаций — момент воспроизведения: окна статистики, свечи ликвидаций и каскады считаются
+// как вживую, на 5x/20x — просто быстрее. Цены и форма графика — записанные:
+// закрытия свечей идут ценовым потоком, история свечей — из начала записи (getKlineHistory)
+export class ReplaySource implements ExchangeAdapter {
+  readonly exchange = 'replay';
+  private records: PlaybackRecord[] = [];
+  private klineHistory: Record<string, unknown[]> = {};
+  private readonly file: string;
+  private readonly startTime: number;
+  private readonly duration: number;
+  private position = 0;
+  private cursor = 0;
+  private pass = 0; // Растет при перемотке назад: повторные ликвидации получают новые id
+  private speed: ReplaySpeed;
+  private status: ReplayState['status'];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastTickAt = 0;
+  private lastStateAt = 0;
+  private onLiquidation: LiquidationHandler | null = null;
+  private onPrices: PriceUpdateHandler | null = null;
+  private onState: ReplayStateHandler | null = null;
+  private health: ExchangeAdapterHealth = {
+    exchange: 'replay',
+    connected: false,
+    connectedAt: null,
+    lastMessageAt: null,
+    messagesReceived: 0,
+    liquidationsParsed: 0,
+    reconnects: 0,
+    errors: 0,
+    lastError: null,
+  };
+
+  constructor(filePath: string, options: ReplaySourceOptions = {}) {
+    this.file = path.basename(filePath);
+    this.readRecords(filePath);
+    this.startTime = this.records[0]?.t ?? 0;
+    this.duration = this.records.length > 0 ? this.records[this.records.length - 1].t - this.startTime : 0;
+    this.speed = options.speed ?? 1;
+    this.status = this.records.length === 0 ? 'ended' : options.paused ? 'paused' : 'playing';
+    console.log(`⏯️ Воспроизведение ${this.file}: ${this.records.length} событий, ${(this.duration / 60000).toFixed(1)} мин`);
+  }
+
+  connect(onLiquidation: LiquidationHandler) {
+    this.onLiquidation = onLiquidation;
+    if (this.timer) return;
+    this.lastTickAt = Date.now();
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL);
+    this.health.connected = true;
+    this.health.connectedAt = Date.now();
+  }
+
+  // Закрытия записанных свечей — цена для delta, графика и тикеров
+  onPricesUpdate(handler: PriceUpdateHandler) {
+    this.onPrices = handler;
+  }
+
+  onStateChange(handler: ReplayStateHandler) {
+    this.onState = handler;
+  }
+
+  parse(message: unknown): Liquidation[] {
+    const record = message as SessionRecord;
+    return record?.type === 'liquidation' ? [record.data] : [];
+  }
+
+  // Для воспроизведения переподключение — начать запись сначала
+  reconnect() {
+    this.control({ position: 0, playing: true });
+  }
+
+  disconnect() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.health.connected = false;
+  }
+
+  getHealth(): ExchangeAdapterHealth {
+    return { ...this.health };
+  }
+
+  getState(): ReplayState {
+    return {
+      file: this.file,
+      status: this.status,
+      speed: this.speed,
+      position: this.position,
+      duration: this.duration,
+      startTime: this.startTime,
+    };
+  }
+
+  // Свечи из начала записи в формате фикстуры KlineService: { 'SYMBOL:interval': [[openTime, o, h, l, c, v], ...] }.
+  // Интервалов, которых в записи нет, здесь нет — график на них получает 404, а не чужие свечи
+  getKlineHistory(): Record<string, unknown[]> {
+    return this.klineHistory;
+  }
+
+  control({ playing, speed, position }: ReplayControl): ReplayState {
+    this.advance(Date.now());
+    if (speed !== undefined) this.speed = speed;
+    if (position !== undefined) this.seek(position);
+    if (playing !== undefined && this.records.length > 0) {
+      // Play в конце записи — сначала
+      if (playing && this.status === 'ended' && position === undefined) this.seek(0);
+      this.status = playing ? 'playing' : 'paused';
+    }
+    this.publishState();
+    return this.getState();
+  }
+
+  private seek(position: number) {
+    const target = Math.min(this.duration, Math.max(0, position));
+    if (target < this.position) this.pass++;
+    this.position = target;
+    this.cursor = recordIndexAt(this.records, this.startTime + target);
+    if (this.status === 'ended' && target < this.duration) this.status = 'paused';
+  }
+
+  private tick() {
+    const now = Date.now();
+    this.advance(now);
+    this.emitDue(now);
+
+    if (this.status === 'playing' && this.position >= this.duration) {
+      this.status = 'ended';
+      this.publishState();
+    } else if (this.status === 'playing' && now - this.lastStateAt >= STATE_BROADCAST_INTERVAL) {
+      this.publishState();
+    }
+  }
+
+  private advance(now: number) {
+    if (this.status === 'playing') {
+      this.position = Math.min(this.duration, this.position + (now - this.lastTickAt) * this.speed);
+    }
+    this.lastTickAt = now;
+  }
+
+  // Все события до текущей позиции; цены — последняя по символу за тик
+  private emitDue(now: number) {
+    const until = this.startTime + this.position;
+    const prices = new Map<string, SymbolPrice>();
+
+    while (this.cursor < this.records.length && this.records[this.cursor].t <= until) {
+      const record = this.records[this.cursor++];
+      this.health.messagesReceived++;
+      this.health.lastMessageAt = now;
+
+      if (record.type === 'liquidation') {
+        const id = this.pass > 0 ? `${record.data.id}~${this.pass}` : record.data.id;
+        this.health.liquidationsParsed++;
+        this.onLiquidation?.({ ...record.data, id, timestamp: now });
+      } else {
+        const { symbol, kline } = record.data;
+        prices.set(symbol, { symbol, price: kline.close, indexPrice: null, fundingRate: null, nextFundingTime: null, timestamp: now });
+      }
+    }
+
+    if (prices.size > 0) {
+      this.onPrices?.(Array.from(prices.values()));
+    }
+  }
+
+  private publishState() {
+    this.lastStateAt = Date.now();
+    this.onState?.(this.getState());
+  }
+
+  // Битые строки (например, оборванная последняя) пропускаем
+  private readRecords(filePath: string) {
+    const lines = fs.readFileSync(filePath, 'utf-8').split('\n');
+    for (const line of lines) {
+      if (line.trim() === '') continue;
+      let record: SessionRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        this.health.errors++;
+        continue;
+      }
+
+      if (record.type === 'klineHistory') {
+        // Первая история потока — самая ранняя
+        const { symbol, interval, klines } = record.data;
+        const key = klineFixtureKey(symbol, interval);
+        if (!this.klineHistory[key] && klines.length > 0) {
+          this.klineHistory[key] = klines.map(k => [k.timestamp, k.open, k.high, k.low, k.close, k.volume]);
+        }
+      } else if (record.type === 'liquidation' || record.type === 'kline') {
+        this.records.push(record);
+      }
+    }
+    // После перезапуска сервера в тот же файл дописывается новая сессия — порядок сохраняется
+    this.records.sort((a, b) => a.t - b.t);
+  }
+}
@@ -0,0 +1,86 @@
+import fs from 'fs';
+import path from 'path';
+import type { Kline, KlineInterval, Liquidation } from '@shared/schema';
+import type { KlineUpdate } from '@shared/wsProtocol';
+
+// Строка записи: t — когда событие прошло через сервер (мс, epoch)
+export type SessionRecord =
+  | { t: number; type: 'liquidation'; data: Liquidation }
+  | { t: number; type: 'kline'; data: KlineUpdate }
+  // История свечей на момент, когда поток впервые попал в файл, — с нее начинается график при воспроизведении
+  | { t: number; type: 'klineHistory'; data: { symbol: string; interval: KlineInterval; klines: Kline[] } };
+
+export interface SessionRecorderHealth {
+  file: string | null;
+  records: number;
+  lastError: string | null;
+}
+
+// Файл на сутки (UTC): session-2026-10-19.ndjson
+function sessionFileName(now: number) {
+  return `session-${new Date(now).toISOString().slice(0, 10)}.ndjson`;
+}
+
+// ⏺️ Пишет нормализованный поток ликвидаций и свечей в NDJSON (RECORD_DIR=recordings).
+// Каждый суточный файл самодостаточен: история свечей пишется заново в начале файла
+export class SessionRecorder {
+  private out: fs.WriteStream | null = null;
+  private file: string | null = null;
+  private recordedStreams: Set<string> = new Set();
+  private health: Omit<SessionRecorderHealth, 'file'> = {
+    records: 0,
+    lastError: null,
+  };
+
+  constructor(private readonly dir: string) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  recordLiquidation(liquidation: Liquidation, now = Date.now()) {
+    this.write({ t: now, type: 'liquidation', data: liquidation });
+  }
+
+  // history — свечи потока до этого обновления; берется один раз на поток и файл
+  recordKline(update: KlineUpdate, history: () => Kline[], now = Date.now()) {
+    this.rotate(now);
+    const key = `${update.symbol}:${update.interval}`;
+    if (!this.recordedStreams.has(key)) {
+      this.recordedStreams.add(key);
+      const klines = history().filter(kline => kline.timestamp < update.kline.timestamp);
+      this.write({ t: now, type: 'klineHistory', data: { symbol: update.symbol, interval: update.interval, klines } });
+    }
+    this.write({ t: now, type: 'kline', data: update });
+  }
+
+  getHealth(): SessionRecorderHealth {
+    return { ...this.health, file: this.file };
+  }
+
+  close() {
+    this.out?.end();
+    this.out = null;
+    this.file = null;
+  }
+
+  private write(record: SessionRecord) {
+    this.rotate(record.t);
+    this.out?.write(JSON.stringify(record) + '\n');
+    this.health.records++;
+  }
+
+  private rotate(now: number) {
+    const file = path.join(this.dir, sessionFileName(now));
+    if (file === this.file) return;
+
+    this.close();
+    this.file = file;
+    this.recordedStreams.clear();
+    const out = fs.createWriteStream(file, { flags: 'a' });
+    out.on('error', (error) => {
+      this.health.lastError = error.message;
+      console.error(`❌ Ошибка записи сессии ${file}:`, error.message);
+    });
+    this.out = out;
+    console.log(`⏺️ Запись сессии в ${file}`);
+  }
+}
@@ -0,0 +1,386 @@
+import type { Liquidation, SymbolPrice } from '@shared/schema';
+import { ExchangeAdapter, ExchangeAdapterHealth, LiquidationHandler, parseBinanceLiquidation } from './exchanges';
+import type { PriceUpdateHandler } from './priceFeed';
+
+const MINUTE = 60 * 1000;
+const TICK_INTERVAL = 100;
+const PRICE_STEP_MS = 1000;       // Цена шагает раз в секунду, как markPrice@1s
+const MOMENTUM_STEPS = 60;        // Сторону ликвидаций подталкивает движение цены за минуту
+const HISTORY_CANDLES = 120;      // Минутные свечи до старта — чтобы график не был пустым
+const MEAN_REVERSION = 0.0005;    // Цена медленно тянется к стартовой: сценарии не уводят ее за месяц в ноль
+
+// Тяжелый хвост сумм: Парето с α=1.3 — большинство ликвидаций на $0.5–5K, редкие киты на миллионы
+const PARETO_ALPHA = 1.3;
+const MIN_VALUE = 500;
+const MAX_VALUE = 20000000;
+const CASCADE_VALUE_MULTIPLIER = 3;
+const CASCADE_RATE = 8;           // Дополнительных ликвидаций в секунду во время каскада
+const CASCADE_SHARE = 0.8;        // Доля потока, которая во время каскада идет по его символу
+const CASCADE_SIDE_SHARE = 0.9;   // ...и в его сторону
+
+export interface SimulatedSymbol {
+  symbol: string;
+  price: number;       // Стартовая цена
+  volatility: number;  // σ доходности за минуту
+  weight: number;      // Доля потока ликвидаций
+}
+
+// Сценарий: через at мс после старта (и каждые cascadePeriodMs) цена символа за durationMs
+// проходит movePercent против side, а ликвидации этой стороны сыплются пачкой
+export interface CascadeScenario {
+  at: number;
+  symbol: string;
+  side: 'long' | 'short';
+  movePercent: number;
+  durationMs: number;
+}
+
+export interface SimulationOptions {
+  seed: number;
+  symbols: SimulatedSymbol[];
+  ratePerSecond: number;   // Средний поток вне каскадов
+  longBias: number;        // Доля лонгов без движения цены (0..1)
+  cascades: CascadeScenario[];
+  cascadePeriodMs: number; // 0 — сценарии один раз
+}
+
+export const DEFAULT_SIMULATED_SYMBOLS: SimulatedSymbol[] = [
+  { symbol: 'BTCUSDT', price: 96000, volatility: 0.0012, weight: 0.35 },
+  { symbol: 'ETHUSDT', price: 2700, volatility: 0.0016, weight: 0.25 },
+  { symbol: 'SOLUSDT', price: 198, volatility: 0.0022, weight: 0.2 },
+  { symbol: 'XRPUSDT', price: 2.6, volatility: 0.0025, weight: 0.1 },
+  { symbol: 'DOGEUSDT', price: 0.26, volatility: 0.003, weight: 0.1 },
+];
+
+// Каждые 10 минут: пролив BTC, шорт-сквиз SOL, пролив ETH, сквиз BTC обратно
+export const DEFAULT_CASCADE_SCENARIOS: CascadeScenario[] = [
+  { at: 60 * 1000, symbol: 'BTCUSDT', side: 'long', movePercent: 1.5, durationMs: 25 * 1000 },
+  { at: 180 * 1000, symbol: 'SOLUSDT', side: 'short', movePercent: 3, durationMs: 30 * 1000 },
+  { at: 330 * 1000, symbol: 'ETHUSDT', side: 'long', movePercent: 2, durationMs: 25 * 1000 },
+  { at: 480 * 1000, symbol: 'BTCUSDT', side: 'short', movePercent: 1.5, durationMs: 20 * 1000 },
+];
+
+export const DEFAULT_SIMULATION_OPTIONS: SimulationOptions = {
+  seed: 42,
+  symbols: DEFAULT_SIMULATED_SYMBOLS,
+  ratePerSecond: 0.5, // На пять символов — больше уже сам по себе похож на каскад
+  longBias: 0.5,
+  cascades: DEFAULT_CASCADE_SCENARIOS,
+  cascadePeriodMs: 10 * MINUTE,
+};
+
+function envNumber(value: string | undefined, fallback: number, min: number, max = Infinity): number {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) && parsed >= min && parsed <= max ? parsed : fallback;
+}
+
+// "60:BTCUSDT:long:1.5,180:SOLUSDT:short" — секунда от старта, символ, сторона, движение в % (по умолчанию 2)
+export function parseCascadeScenarios(value: string): CascadeScenario[] {
+  return value.split(',').flatMap(item => {
+    const [at, symbol, side, move] = item.trim().split(':');
+    const seconds = Number(at);
+    if (!Number.isFinite(seconds) || !symbol || (side !== 'long' && side !== 'short')) {
+      if (item.trim()) console.warn(`Пропущен сценарий каскада: ${item}`);
+      return [];
+    }
+    return [{
+      at: seconds * 1000,
+      symbol: symbol.toUpperCase(),
+      side,
+      movePercent: envNumber(move, 2, 0),
+      durationMs: 25 * 1000,
+    }];
+  });
+}
+
+// SIM_SEED, SIM_RATE, SIM_LONG_BIAS, SIM_CASCADES (none — без каскадов), SIM_CASCADE_PERIOD_SECONDS (0 — без повтора)
+export function simulationOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): SimulationOptions {
+  const defaults = DEFAULT_SIMULATION_OPTIONS;
+  const script = env.SIM_CASCADES?.trim();
+  return {
+    ...defaults,
+    seed: Math.floor(envNumber(env.SIM_SEED, defaults.seed, 0)),
+    ratePerSecond: envNumber(env.SIM_RATE, defaults.ratePerSecond, 0.01),
+    longBias: envNumber(env.SIM_LONG_BIAS, defaults.longBias, 0, 1),
+    cascades: !script ? defaults.cascades : script === 'none' ? [] : parseCascadeScenarios(script),
+    cascadePeriodMs: envNumber(env.SIM_CASCADE_PERIOD_SECONDS, defaults.cascadePeriodMs / 1000, 0) * 1000,
+  };
+}
+
+// Быстрый 32-битный генератор: одинаковый seed — одинаковая последовательность
+export function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Точность как у Binance: количество — шаг лота, цена — шаг цены
+function quantityDecimals(price: number) {
+  return price >= 1000 ? 3 : price >= 10 ? 2 : price >= 1 ? 1 : 0;
+}
+
+function priceDecimals(price: number) {
+  return price >= 1000 ? 1 : price >= 10 ? 2 : price >= 1 ? 4 : 5;
+}
+
+export interface SimulationStep {
+  liquidations: Liquidation[];
+  prices: SymbolPrice[]; // Последняя цена по символу за шаг
+}
+
+// 🎲 Рынок без биржи: случайное блуждание цены и пуассоновский поток ликвидаций.
+// Все зависит только от seed и startTime, а время двигает вызывающий (advance): те же seed и startTime
+// дают те же ликвидации вплоть до id и миллисекунды, как бы часто ни вызывали advance
+export class LiquidationSimulator {
+  private readonly random: () => number;
+  private readonly options: SimulationOptions;
+  private prices: Map<string, number[]> = new Map(); // Последние MOMENTUM_STEPS + 1 цен, новая — в конце
+  private klineHistory: Record<string, unknown[]> = {};
+  private nextLiquidationAt: number;
+  private nextPriceAt: number;
+  private count = 0;
+
+  constructor(private readonly startTime: number, options: Partial<SimulationOptions> = {}) {
+    this.options = { ...DEFAULT_SIMULATION_OPTIONS, ...options };
+    this.random = mulberry32(this.options.seed);
+    for (const { symbol, price } of this.options.symbols) {
+      this.prices.set(symbol, [price]);
+    }
+    this.buildKlineHistory();
+    this.nextPriceAt = startTime + PRICE_STEP_MS;
+    this.nextLiquidationAt = startTime + this.interArrival(startTime);
+  }
+
+  // Минутные свечи до старта в формате фикстуры KlineService: { SYMBOL: [[openTime, o, h, l, c, v], ...] }
+  getKlineHistory(): Record<string, unknown[]> {
+    return this.klineHistory;
+  }
+
+  getPrice(symbol: string): number | undefined {
+    const history = this.prices.get(symbol);
+    return history?.[history.length - 1];
+  }
+
+  // Все события до until (мс, epoch) по порядку
+  advance(until: number): SimulationStep {
+    const liquidations: Liquidation[] = [];
+    const prices = new Map<string, SymbolPrice>();
+
+    while (Math.min(this.nextPriceAt, this.nextLiquidationAt) <= until) {
+      if (this.nextPriceAt <= this.nextLiquidationAt) {
+        const time = this.nextPriceAt;
+        this.stepPrices(time);
+        for (const { symbol } of this.options.symbols) {
+          prices.set(symbol, { symbol, price: this.getPrice(symbol)!, indexPrice: null, fundingRate: null, nextFundingTime: null, timestamp: time });
+        }
+        this.nextPriceAt += PRICE_STEP_MS;
+      } else {
+        const time = this.nextLiquidationAt;
+        const liquidation = this.liquidate(time);
+        if (liquidation) liquidations.push(liquidation);
+        this.nextLiquidationAt += this.interArrival(time);
+      }
+    }
+
+    return { liquidations, prices: Array.from(prices.values()) };
+  }
+
+  private activeCascade(time: number): CascadeScenario | null {
+    const { cascades, cascadePeriodMs } = this.options;
+    const elapsed = time - this.startTime;
+    const local = cascadePeriodMs > 0 ? elapsed % cascadePeriodMs : elapsed;
+    return cascades.find(cascade => local >= cascade.at && local < cascade.at + cascade.durationMs) ?? null;
+  }
+
+  // Box–Muller: стандартное нормальное из двух равномерных
+  private gaussian(): number {
+    const u = Math.max(this.random(), Number.EPSILON);
+    const v = this.random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+
+  private stepPrices(time: number) {
+    const cascade = this.activeCascade(time);
+    const stepVolatility = Math.sqrt(PRICE_STEP_MS / MINUTE);
+
+    for (const { symbol, price: base, volatility } of this.options.symbols) {
+      const history = this.prices.get(symbol)!;
+      const price = history[history.length - 1];
+      let drift = -MEAN_REVERSION * Math.log(price / base);
+      // Каскад лонгов — цена падает, шортов — растет
+      if (cascade?.symbol === symbol) {
+        const direction = cascade.side === 'long' ? -1 : 1;
+        drift += Math.log(1 + direction * cascade.movePercent / 100) * PRICE_STEP_MS / cascade.durationMs;
+      }
+      history.push(price * Math.exp(drift + volatility * stepVolatility * this.gaussian()));
+      if (history.length > MOMENTUM_STEPS + 1) history.shift();
+    }
+  }
+
+  private interArrival(time: number): number {
+    const rate = this.options.ratePerSecond + (this.activeCascade(time) ? CASCADE_RATE : 0);
+    return -Math.log(1 - this.random()) / rate * 1000;
+  }
+
+  private pickSymbol(): SimulatedSymbol {
+    const { symbols } = this.options;
+    const total = symbols.reduce((sum, item) => sum + item.weight, 0);
+    let roll = this.random() * total;
+    for (const item of symbols) {
+      roll -= item.weight;
+      if (roll < 0) return item;
+    }
+    return symbols[symbols.length - 1];
+  }
+
+  // Кадр forceOrder в формате Binance — дальше тот же разбор, что у живого потока
+  private liquidate(at: number): Liquidation | null {
+    const time = Math.floor(at);
+    const cascade = this.activeCascade(time);
+    const inCascade = cascade !== null && this.options.symbols.some(item => item.symbol === cascade.symbol) && this.random() < CASCADE_SHARE;
+    const symbol = inCascade ? cascade!.symbol : this.pickSymbol().symbol;
+    const history = this.prices.get(symbol)!;
+    const mark = history[history.length - 1];
+
+    let side: 'long' | 'short';
+    if (inCascade) {
+      const opposite = cascade!.side === 'long' ? 'short' : 'long';
+      side = this.random() < CASCADE_SIDE_SHARE ? cascade!.side : opposite;
+    } else {
+      // Цена за минуту упала на 0.5% — лонгов заметно больше
+      const momentum = mark / history[0] - 1;
+      const longShare = Math.min(0.95, Math.max(0.05, this.options.longBias - momentum * 50));
+      side = this.random() < longShare ? 'long' : 'short';
+    }
+
+    const tail = Math.pow(1 - this.random(), -1 / PARETO_ALPHA);
+    const value = Math.min(MAX_VALUE, MIN_VALUE * tail * (inCascade ? CASCADE_VALUE_MULTIPLIER : 1));
+    // Ликвидационный ордер исполняется хуже mark price
+    const slippage = 0.0005 * this.random();
+    const price = mark * (side === 'long' ? 1 - slippage : 1 + slippage);
+    const decimals = quantityDecimals(price);
+    const quantity = Math.max(Math.pow(10, -decimals), Number((value / price).toFixed(decimals)));
+
+    const frame = {
+      e: 'forceOrder',
+      E: time,
+      o: {
+        s: symbol,
+        S: side === 'long' ? 'SELL' : 'BUY',
+        o: 'LIMIT',
+        f: 'IOC',
+        q: quantity.toFixed(decimals),
+        p: price.toFixed(priceDecimals(price)),
+        ap: price.toFixed(priceDecimals(price)),
+        X: 'FILLED',
+        l: quantity.toFixed(decimals),
+        z: quantity.toFixed(decimals),
+        T: time,
+      },
+    };
+    const liquidation = parseBinanceLiquidation(frame.o);
+    if (!liquidation) return null;
+    // parseBinanceLiquidation берет время приема и случайный id — подставляем детерминированные.
+    // Биржа — сам симулятор: синтетика не должна попадать в фильтры и алерты по binance
+    return { ...liquidation, id: `sim-${this.options.seed}-${++this.count}`, exchange: 'simulated', timestamp: time };
+  }
+
+  // Блуждание назад от стартовой цены: последняя свеча закрывается ровно на ней
+  private buildKlineHistory() {
+    for (const { symbol, price, volatility, weight } of this.options.symbols) {
+      const rows: unknown[] = [];
+      let close = price;
+      for (let i = HISTORY_CANDLES - 1; i >= 0; i--) {
+        const open = close / Math.exp(volatility * this.gaussian());
+        const wick = 1 + Math.abs(this.gaussian()) * volatility * 0.5;
+        const volume = 20000000 * weight / price * (0.5 + this.random());
+        rows.unshift([this.startTime - (HISTORY_CANDLES - i) * MINUTE, open, Math.max(open, close) * wick, Math.min(open, close) / wick, close, volume]);
+        close = open;
+      }
+      this.klineHistory[symbol] = rows;
+    }
+  }
+}
+
+// 🎲 Синтетический источник (LIQUIDATION_MODE=simulated): разработка и демо без доступа к биржам
+export class SimulatedSource implements ExchangeAdapter {
+  readonly exchange = 'simulated';
+  private readonly simulator: LiquidationSimulator;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private onLiquidation: LiquidationHandler | null = null;
+  private onPrices: PriceUpdateHandler | null = null;
+  private health: ExchangeAdapterHealth = {
+    exchange: 'simulated',
+    connected: false,
+    connectedAt: null,
+    lastMessageAt: null,
+    messagesReceived: 0,
+    liquidationsParsed: 0,
+    reconnects: 0,
+    errors: 0,
+    lastError: null,
+  };
+
+  constructor(options: Partial<SimulationOptions> = {}, startTime = Date.now()) {
+    this.simulator = new LiquidationSimulator(startTime, options);
+  }
+
+  connect(onLiquidation: LiquidationHandler) {
+    this.onLiquidation = onLiquidation;
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL);
+    this.health.connected = true;
+    this.health.connectedAt = Date.now();
+  }
+
+  // Случайное блуждание — цена для delta, графика и тикеров
+  onPricesUpdate(handler: PriceUpdateHandler) {
+    this.onPrices = handler;
+  }
+
+  getKlineHistory(): Record<string, unknown[]> {
+    return this.simulator.getKlineHistory();
+  }
+
+  parse(message: any): Liquidation[] {
+    if (!message?.o) return [];
+    const liquidation = parseBinanceLiquidation(message.o);
+    return liquidation ? [liquidation] : [];
+  }
+
+  // Соединения нет — переподключаться нечему
+  reconnect() {
+    this.health.reconnects++;
+  }
+
+  disconnect() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.health.connected = false;
+  }
+
+  getHealth(): ExchangeAdapterHealth {
+    return { ...this.health };
+  }
+
+  private tick() {
+    const now = Date.now();
+    const { liquidations, prices } = this.simulator.advance(now);
+    if (prices.length > 0) {
+      this.onPrices?.(prices);
+    }
+    for (const liquidation of liquidations) {
+      this.health.messagesReceived++;
+      this.health.liquidationsParsed++;
+      this.health.lastMessageAt = now;
+      this.onLiquidation?.(liquidation);
+    }
+  }
+}
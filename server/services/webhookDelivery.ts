@@ -0,0 +1,175 @@
+import { promises as dns } from 'dns';
+import { isIP } from 'net';
+import type { AlertEvent } from '@shared/schema';
+
+export interface WebhookDeliveryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;   // Пауза перед второй попыткой; дальше удваивается
+  maxDelayMs: number;
+  timeoutMs: number;     // Таймаут одного запроса
+  allowedHosts: string[]; // Хосты, которым можно во внутреннюю сеть (локальный приемник при разработке)
+}
+
+export const DEFAULT_WEBHOOK_OPTIONS: WebhookDeliveryOptions = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 60 * 1000,
+  timeoutMs: 5000,
+  allowedHosts: [],
+};
+
+// ALERT_WEBHOOK_ALLOWED_HOSTS=localhost,hooks.internal
+export function webhookOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): WebhookDeliveryOptions {
+  return {
+    ...DEFAULT_WEBHOOK_OPTIONS,
+    allowedHosts: (env.ALERT_WEBHOOK_ALLOWED_HOSTS || '')
+      .split(',')
+      .map(host => host.trim().toLowerCase())
+      .filter(Boolean),
+  };
+}
+
+// Вебхук ведет во внутреннюю сеть или никуда — правило с таким адресом не сохраняем
+export class WebhookUrlError extends Error {
+  status = 400;
+}
+
+// Loopback, частные, link-local, CGNAT, multicast и прочие адреса, куда сервер слать не должен
+function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 6) {
+    const lower = address.toLowerCase();
+    // IPv4 внутри IPv6: ::ffff:10.0.0.1, после разбора URL — ::ffff:a00:1
+    const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPrivateAddress(mapped[1]);
+    const mappedHex = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mappedHex) {
+      const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+      return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+    return lower === '::' || lower === '::1' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower) || /^ff/.test(lower);
+  }
+  const [a, b] = address.split('.').map(Number);
+  return a === 0 || a === 10 || a === 127 || a >= 224
+    || (a === 100 && b >= 64 && b < 128)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b < 32)
+    || (a === 192 && b === 168)
+    || (a === 198 && (b === 18 || b === 19));
+}
+
+// Сколько последних доставок держим для GET /api/alerts/deliveries
+const DELIVERY_LOG_SIZE = 100;
+
+export interface WebhookDeliveryRecord {
+  eventId: string;
+  ruleId: string;
+  url: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// 🔔 POST срабатываний на вебхуки. Сетевые ошибки, 429 и 5xx повторяем с
+// экспоненциальной паузой; прочие 4xx — ошибка получателя, повтор не поможет
+export class WebhookDelivery {
+  private log: WebhookDeliveryRecord[] = [];
+
+  constructor(private options: WebhookDeliveryOptions = DEFAULT_WEBHOOK_OPTIONS) {}
+
+  // 🛡️ Вебхук — только http(s) на публичный адрес: иначе правило алерта превращает сервер
+  // в прокси во внутреннюю сеть. Адреса проверяем после DNS, хосты из allowedHosts — без проверки
+  async checkUrl(url: string): Promise<void> {
+    const { protocol, hostname } = new URL(url);
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      throw new WebhookUrlError('webhookUrl must be http(s)');
+    }
+    const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    if (this.options.allowedHosts.includes(host)) return;
+
+    let addresses: string[];
+    try {
+      addresses = isIP(host) ? [host] : (await dns.lookup(host, { all: true })).map(entry => entry.address);
+    } catch {
+      throw new WebhookUrlError(`Cannot resolve webhook host ${host}`);
+    }
+    if (addresses.some(isPrivateAddress)) {
+      throw new WebhookUrlError(`Webhook host ${host} resolves to a private address`);
+    }
+  }
+
+  deliver(url: string, event: AlertEvent): WebhookDeliveryRecord {
+    const record: WebhookDeliveryRecord = {
+      eventId: event.id,
+      ruleId: event.ruleId,
+      url,
+      status: 'pending',
+      attempts: 0,
+      lastStatusCode: null,
+      lastError: null,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
+    this.log.push(record);
+    if (this.log.length > DELIVERY_LOG_SIZE) {
+      this.log.shift();
+    }
+
+    this.attempt(record, JSON.stringify(event));
+    return record;
+  }
+
+  // Новые сверху
+  getDeliveries(ruleId?: string): WebhookDeliveryRecord[] {
+    return this.log
+      .filter(record => !ruleId || record.ruleId === ruleId)
+      .slice()
+      .reverse();
+  }
+
+  private async attempt(record: WebhookDeliveryRecord, body: string) {
+    record.attempts++;
+    let retryable = true;
+
+    try {
+      // DNS мог смениться с сохранения правила — проверяем адрес перед каждой попыткой
+      await this.checkUrl(record.url);
+      const response = await fetch(record.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'CryptoLiquidations-Webhook/1.0',
+        },
+        body,
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+      });
+      record.lastStatusCode = response.status;
+      // Тело ответа не нужно, но без чтения или отмены undici держит соединение до сборки мусора
+      await response.body?.cancel().catch(() => {});
+
+      if (response.ok) {
+        record.status = 'delivered';
+        record.lastError = null;
+        record.updatedAt = Date.now();
+        return;
+      }
+      record.lastError = `HTTP ${response.status}`;
+      retryable = response.status === 429 || response.status >= 500;
+    } catch (error: any) {
+      record.lastError = error.message;
+      retryable = !(error instanceof WebhookUrlError);
+    }
+
+    record.updatedAt = Date.now();
+    if (!retryable || record.attempts >= this.options.maxAttempts) {
+      record.status = 'failed';
+      console.error(`❌ Вебхук ${record.url} не доставлен после ${record.attempts} попыток: ${record.lastError}`);
+      return;
+    }
+
+    const delay = Math.min(this.options.baseDelayMs * 2 ** (record.attempts - 1), this.options.maxDelayMs);
+    setTimeout(() => this.attempt(record, body), delay);
+  }
+}
@@ -1,20 +1,75 @@
-import { type User, type InsertUser } from "@shared/schema";
+import { type User, type InsertUser, type Liquidation, type LiquidationBar, type Cascade, type AlertRule, type InsertAlertRule, type UpdateAlertRule, users, liquidations, cascades, alertRules } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, desc, eq, gte, inArray, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import { db, type Database } from "./db";
 
 // modify the interface with any CRUD methods
 // you might need
 
+// Позиция в выдаче (timestamp, id), с которой продолжать постраничный обход
+export interface LiquidationCursor {
+  timestamp: number;
+  id: string;
+}
+
+export interface LiquidationFilter {
+  symbols?: string[];
+  exchanges?: string[];
+  side?: 'long' | 'short';
+  minValue?: number;
+  maxValue?: number;
+  from?: number;
+  to?: number;
+  before?: LiquidationCursor;
+  limit?: number;
+}
+
+export interface CascadeFilter {
+  symbol?: string;
+  from?: number;
+  to?: number;
+  limit?: number;
+}
+
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  insertLiquidations(items: Liquidation[]): Promise<void>;
+  // Новые сверху: по убыванию (timestamp, id)
+  getLiquidations(filter: LiquidationFilter): Promise<Liquidation[]>;
+  // Минутные свечи по символам за [from, to) — для восстановления статистики после рестарта
+  getMinuteBars(from: number, to: number): Promise<LiquidationBar[]>;
+  // ⚡ Каскад сохраняется при старте и перезаписывается по мере роста и при завершении
+  saveCascade(cascade: Cascade): Promise<void>;
+  // Новые сверху (по startTime)
+  getCascades(filter: CascadeFilter): Promise<Cascade[]>;
+  // 🔔 Правила алертов
+  getAlertRules(): Promise<AlertRule[]>;
+  getAlertRule(id: string): Promise<AlertRule | undefined>;
+  createAlertRule(rule: InsertAlertRule): Promise<AlertRule>;
+  updateAlertRule(id: string, patch: UpdateAlertRule): Promise<AlertRule | undefined>;
+  deleteAlertRule(id: string): Promise<boolean>;
 }
 
+const MINUTE = 60 * 1000;
+
+const DEFAULT_QUERY_LIMIT = 500;
+// Сколько ликвидаций держим в памяти без базы
+const MEM_LIQUIDATIONS_LIMIT = 50000;
+const MEM_CASCADES_LIMIT = 1000;
+
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private liquidations: Liquidation[];
+  private cascades: Map<string, Cascade>;
+  private alertRules: Map<string, AlertRule>;
 
   constructor() {
     this.users = new Map();
+    this.liquidations = [];
+    this.cascades = new Map();
+    this.alertRules = new Map();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -28,11 +83,227 @@ export class MemStorage implements IStorage {
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
+    // Как уникальный индекс users.username в PostgreSQL
+    if (Array.from(this.users.values()).some(user => user.username === insertUser.username)) {
+      throw Object.assign(new Error(`Username ${insertUser.username} already exists`), { code: '23505' });
+    }
     const id = randomUUID();
     const user: User = { ...insertUser, id };
     this.users.set(id, user);
     return user;
   }
+
+  async insertLiquidations(items: Liquidation[]): Promise<void> {
+    this.liquidations.push(...items);
+    if (this.liquidations.length > MEM_LIQUIDATIONS_LIMIT) {
+      this.liquidations = this.liquidations.slice(-MEM_LIQUIDATIONS_LIMIT);
+    }
+  }
+
+  async getLiquidations(filter: LiquidationFilter): Promise<Liquidation[]> {
+    const limit = filter.limit ?? DEFAULT_QUERY_LIMIT;
+    const before = filter.before;
+    return this.liquidations
+      .filter(liq =>
+        (!filter.symbols || filter.symbols.includes(liq.symbol)) &&
+        (!filter.exchanges || filter.exchanges.includes(liq.exchange)) &&
+        (!filter.side || liq.side === filter.side) &&
+        (filter.minValue === undefined || liq.value >= filter.minValue) &&
+        (filter.maxValue === undefined || liq.value <= filter.maxValue) &&
+        (filter.from === undefined || liq.timestamp >= filter.from) &&
+        (filter.to === undefined || liq.timestamp <= filter.to) &&
+        (!before || liq.timestamp < before.timestamp || (liq.timestamp === before.timestamp && liq.id < before.id))
+      )
+      .sort((a, b) => b.timestamp - a.timestamp || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0))
+      .slice(0, limit);
+  }
+
+  async getMinuteBars(from: number, to: number): Promise<LiquidationBar[]> {
+    const bars = new Map<string, LiquidationBar>();
+    for (const liq of this.liquidations) {
+      if (liq.timestamp < from || liq.timestamp >= to) continue;
+      const openTime = Math.floor(liq.timestamp / MINUTE) * MINUTE;
+      const key = `${liq.symbol}|${openTime}`;
+      let bar = bars.get(key);
+      if (!bar) {
+        bar = { symbol: liq.symbol, interval: '1m', openTime, longValue: 0, shortValue: 0, longCount: 0, shortCount: 0, maxValue: 0 };
+        bars.set(key, bar);
+      }
+      if (liq.side === 'long') {
+        bar.longValue += liq.value;
+        bar.longCount++;
+      } else {
+        bar.shortValue += liq.value;
+        bar.shortCount++;
+      }
+      bar.maxValue = Math.max(bar.maxValue, liq.value);
+    }
+    return Array.from(bars.values());
+  }
+
+  async saveCascade(cascade: Cascade): Promise<void> {
+    this.cascades.set(cascade.id, { ...cascade });
+    if (this.cascades.size > MEM_CASCADES_LIMIT) {
+      // Map хранит порядок вставки — первым удаляется самый старый
+      this.cascades.delete(this.cascades.keys().next().value!);
+    }
+  }
+
+  async getCascades(filter: CascadeFilter): Promise<Cascade[]> {
+    return Array.from(this.cascades.values())
+      .filter(cascade =>
+        (!filter.symbol || cascade.symbol === filter.symbol) &&
+        (filter.from === undefined || cascade.startTime >= filter.from) &&
+        (filter.to === undefined || cascade.startTime <= filter.to)
+      )
+      .sort((a, b) => b.startTime - a.startTime)
+      .slice(0, filter.limit ?? DEFAULT_QUERY_LIMIT);
+  }
+
+  async getAlertRules(): Promise<AlertRule[]> {
+    return Array.from(this.alertRules.values());
+  }
+
+  async getAlertRule(id: string): Promise<AlertRule | undefined> {
+    return this.alertRules.get(id);
+  }
+
+  async createAlertRule(rule: InsertAlertRule): Promise<AlertRule> {
+    const created: AlertRule = { ...rule, id: randomUUID(), createdAt: Date.now() };
+    this.alertRules.set(created.id, created);
+    return created;
+  }
+
+  async updateAlertRule(id: string, patch: UpdateAlertRule): Promise<AlertRule | undefined> {
+    const existing = this.alertRules.get(id);
+    if (!existing) return undefined;
+    const updated: AlertRule = { ...existing, ...patch };
+    this.alertRules.set(id, updated);
+    return updated;
+  }
+
+  async deleteAlertRule(id: string): Promise<boolean> {
+    return this.alertRules.delete(id);
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async insertLiquidations(items: Liquidation[]): Promise<void> {
+    if (items.length === 0) return;
+    await this.db.insert(liquidations).values(items).onConflictDoNothing();
+  }
+
+  async getLiquidations(filter: LiquidationFilter): Promise<Liquidation[]> {
+    const conditions: SQL[] = [];
+    if (filter.symbols) conditions.push(inArray(liquidations.symbol, filter.symbols));
+    if (filter.exchanges) conditions.push(inArray(liquidations.exchange, filter.exchanges));
+    if (filter.side) conditions.push(eq(liquidations.side, filter.side));
+    if (filter.minValue !== undefined) conditions.push(gte(liquidations.value, filter.minValue));
+    if (filter.maxValue !== undefined) conditions.push(lte(liquidations.value, filter.maxValue));
+    if (filter.from !== undefined) conditions.push(gte(liquidations.timestamp, filter.from));
+    if (filter.to !== undefined) conditions.push(lte(liquidations.timestamp, filter.to));
+    if (filter.before) {
+      conditions.push(or(
+        lt(liquidations.timestamp, filter.before.timestamp),
+        and(eq(liquidations.timestamp, filter.before.timestamp), lt(liquidations.id, filter.before.id)),
+      )!);
+    }
+
+    return this.db
+      .select()
+      .from(liquidations)
+      .where(and(...conditions))
+      .orderBy(desc(liquidations.timestamp), desc(liquidations.id))
+      .limit(filter.limit ?? DEFAULT_QUERY_LIMIT);
+  }
+
+  async getMinuteBars(from: number, to: number): Promise<LiquidationBar[]> {
+    // Шаг — литералом, а не параметром: иначе в SELECT и GROUP BY выйдут разные $n
+    // и Postgres не признает выражения одинаковыми ("must appear in the GROUP BY clause")
+    const minute = sql.raw(String(MINUTE));
+    const openTime = sql<number>`(${liquidations.timestamp} / ${minute}) * ${minute}`.mapWith(Number);
+    const isLong = sql`${liquidations.side} = 'long'`;
+
+    const rows = await this.db
+      .select({
+        symbol: liquidations.symbol,
+        openTime,
+        longValue: sql<number>`coalesce(sum(${liquidations.value}) filter (where ${isLong}), 0)`.mapWith(Number),
+        shortValue: sql<number>`coalesce(sum(${liquidations.value}) filter (where not ${isLong}), 0)`.mapWith(Number),
+        longCount: sql<number>`count(*) filter (where ${isLong})`.mapWith(Number),
+        shortCount: sql<number>`count(*) filter (where not ${isLong})`.mapWith(Number),
+        maxValue: sql<number>`max(${liquidations.value})`.mapWith(Number),
+      })
+      .from(liquidations)
+      .where(and(gte(liquidations.timestamp, from), lt(liquidations.timestamp, to)))
+      .groupBy(liquidations.symbol, openTime);
+
+    return rows.map(row => ({ ...row, interval: '1m' as const }));
+  }
+
+  async saveCascade(cascade: Cascade): Promise<void> {
+    const { id, ...update } = cascade;
+    await this.db
+      .insert(cascades)
+      .values(cascade)
+      .onConflictDoUpdate({ target: cascades.id, set: update });
+  }
+
+  async getCascades(filter: CascadeFilter): Promise<Cascade[]> {
+    const conditions: SQL[] = [];
+    if (filter.symbol) conditions.push(eq(cascades.symbol, filter.symbol));
+    if (filter.from !== undefined) conditions.push(gte(cascades.startTime, filter.from));
+    if (filter.to !== undefined) conditions.push(lte(cascades.startTime, filter.to));
+
+    return this.db
+      .select()
+      .from(cascades)
+      .where(and(...conditions))
+      .orderBy(desc(cascades.startTime))
+      .limit(filter.limit ?? DEFAULT_QUERY_LIMIT);
+  }
+
+  async getAlertRules(): Promise<AlertRule[]> {
+    return this.db.select().from(alertRules).orderBy(alertRules.createdAt);
+  }
+
+  async getAlertRule(id: string): Promise<AlertRule | undefined> {
+    const [rule] = await this.db.select().from(alertRules).where(eq(alertRules.id, id));
+    return rule;
+  }
+
+  async createAlertRule(rule: InsertAlertRule): Promise<AlertRule> {
+    const [created] = await this.db.insert(alertRules).values({ ...rule, createdAt: Date.now() }).returning();
+    return created;
+  }
+
+  async updateAlertRule(id: string, patch: UpdateAlertRule): Promise<AlertRule | undefined> {
+    const [updated] = await this.db.update(alertRules).set(patch).where(eq(alertRules.id, id)).returning();
+    return updated;
+  }
+
+  async deleteAlertRule(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(alertRules).where(eq(alertRules.id, id)).returning({ id: alertRules.id });
+    return deleted.length > 0;
+  }
 }
 
-export const storage = new MemStorage();
+// PostgreSQL при наличии DATABASE_URL, иначе — память (история до перезапуска)
+export const storage: IStorage = db ? new DatabaseStorage(db) : new MemStorage();
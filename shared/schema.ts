@@ -1,5 +1,17 @@
+import { sql } from "drizzle-orm";
+import { pgTable, text, varchar, bigint, boolean, doublePrecision, index, integer, json, jsonb, timestamp } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// 📊 Открытый интерес и funding символа в момент ликвидации — знаменатель для ее суммы
+export const marketContextSchema = z.object({
+  openInterest: z.number().nullable(),      // Монет в открытых позициях
+  openInterestValue: z.number().nullable(), // То же в $ по mark price
+  fundingRate: z.number().nullable(),       // Ставка текущего периода (0.0001 = 0.01%)
+});
+
+export type MarketContext = z.infer<typeof marketContextSchema>;
+
 export const liquidationSchema = z.object({
   id: z.string(),
   timestamp: z.number(),
@@ -9,11 +21,25 @@ export const liquidationSchema = z.object({
   size: z.number(),
   price: z.number(),
   value: z.number(),
+  context: marketContextSchema.nullable().optional(), // null — OI и funding символа еще не получены
+});
+
+// ⏱️ Скользящие окна статистики (вместо сброса раз в 24 часа)
+export const STATS_WINDOWS = ['1h', '4h', '24h'] as const;
+export type StatsWindow = typeof STATS_WINDOWS[number];
+
+export const windowStatsSchema = z.object({
+  longs: z.number(),      // $ ликвидаций лонгов за окно
+  shorts: z.number(),     // $ ликвидаций шортов за окно
+  longCount: z.number(),
+  shortCount: z.number(),
 });
 
+export type WindowStats = z.infer<typeof windowStatsSchema>;
+
 export const marketStatsSchema = z.object({
-  totalLongs: z.number(),
-  totalShorts: z.number(),
+  totalLongs: z.number(),  // = windows['24h'].longs
+  totalShorts: z.number(), // = windows['24h'].shorts
   activeLiquidations: z.number(),
   longShortRatio: z.object({
     longs: z.number(),
@@ -27,15 +53,467 @@ export const marketStatsSchema = z.object({
   // 🔥 НОВАЯ МЕТРИКА: Liquidation Delta по движению цены
   priceMovementDelta: z.object({
     lastPrice: z.number(),
-    priceChange: z.number(), // Изменение цены за последний час
-    longsPerPriceUnit: z.number(), // $ ликвидаций лонгов на $1 движения цены
-    shortsPerPriceUnit: z.number(), // $ ликвидаций шортов на $1 движения цены
+    priceChange: z.number(), // Изменение цены BTC за последний час, %
+    longsPerPriceUnit: z.number(), // $ ликвидаций лонгов на 1% движения цены
+    shortsPerPriceUnit: z.number(), // $ ликвидаций шортов на 1% движения цены
     deltaRatio: z.number(), // Соотношение силы (>1 = больше ликвидаций лонгов)
   }).optional(),
+  windows: z.object({
+    '1h': windowStatsSchema,
+    '4h': windowStatsSchema,
+    '24h': windowStatsSchema,
+  }).optional(),
+});
+
+// 🎯 Статистика по одному символу за скользящие окна
+export const symbolWindowStatsSchema = windowStatsSchema.extend({
+  largest: z.number(),             // Крупнейшая одиночная ликвидация за окно
+  lastPrice: z.number().nullable(), // Цена последней ликвидации в окне
+});
+
+export const symbolStatsSchema = z.object({
+  symbol: z.string(),
+  lastLiquidationAt: z.number().nullable(),
+  windows: z.object({
+    '1h': symbolWindowStatsSchema,
+    '4h': symbolWindowStatsSchema,
+    '24h': symbolWindowStatsSchema,
+  }),
 });
 
 export type Liquidation = z.infer<typeof liquidationSchema>;
 export type MarketStats = z.infer<typeof marketStatsSchema>;
+export type SymbolWindowStats = z.infer<typeof symbolWindowStatsSchema>;
+export type SymbolStats = z.infer<typeof symbolStatsSchema>;
+
+// 💰 Последняя mark price символа из ценового потока
+export const symbolPriceSchema = z.object({
+  symbol: z.string(),
+  price: z.number(),
+  indexPrice: z.number().nullable(),
+  fundingRate: z.number().nullable(),
+  nextFundingTime: z.number().nullable(),
+  timestamp: z.number(),
+});
+
+export type SymbolPrice = z.infer<typeof symbolPriceSchema>;
+
+// 📊 Открытый интерес символа рядом с его ликвидациями за окна статистики
+export const openInterestWindowSchema = z.object({
+  oiChangePercent: z.number().nullable(),  // null — истории OI на все окно еще нет
+  liquidations: z.number(),                // $ ликвидаций за окно (лонги + шорты)
+  liquidationsToOi: z.number().nullable(), // Те же $ в % от текущего OI
+});
+
+export const openInterestStatsSchema = z.object({
+  symbol: z.string(),
+  openInterest: z.number().nullable(),
+  openInterestValue: z.number().nullable(),
+  fundingRate: z.number().nullable(),
+  nextFundingTime: z.number().nullable(),
+  timestamp: z.number().nullable(), // Время последнего замера OI
+  windows: z.object({
+    '1h': openInterestWindowSchema,
+    '4h': openInterestWindowSchema,
+    '24h': openInterestWindowSchema,
+  }),
+});
+
+export type OpenInterestWindow = z.infer<typeof openInterestWindowSchema>;
+export type OpenInterestStats = z.infer<typeof openInterestStatsSchema>;
+
+// 🕯️ Свечи цены с Binance через наш сервер (один поток на символ/интервал на всех клиентов)
+export const KLINE_INTERVALS = ['1m', '5m', '15m', '30m', '1h', '4h', '1d'] as const;
+export type KlineInterval = typeof KLINE_INTERVALS[number];
+
+export const klineSchema = z.object({
+  timestamp: z.number(), // Начало свечи
+  open: z.number(),
+  high: z.number(),
+  low: z.number(),
+  close: z.number(),
+  volume: z.number(),    // В монетах
+  closed: z.boolean(),   // false — свеча еще формируется
+});
+
+export type Kline = z.infer<typeof klineSchema>;
+
+export const klineQuerySchema = z.object({
+  interval: z.enum(KLINE_INTERVALS).default('1m'),
+  limit: z.coerce.number().int().min(1).max(1000).default(60),
+});
+
+// 🔥 Liquidation Delta: $ ликвидаций на 1% движения цены за окно, по символу или по рынку (MARKET_SYMBOL)
+export const DELTA_WINDOWS = ['15m', '1h', '4h'] as const;
+export type DeltaWindow = typeof DELTA_WINDOWS[number];
+// Движение цены меньше этого — шум: delta не считается
+export const DELTA_MIN_MOVE_PERCENT = 0.05;
+// Потолок deltaRatio: окно только с ликвидациями лонгов (шортов 0) дает его, а не 1 —
+// иначе чистый long squeeze выглядел бы как равновесие
+export const DELTA_RATIO_CAP = 100;
+
+export const liquidationDeltaPointSchema = z.object({
+  timestamp: z.number(),                   // Конец окна
+  priceChangePercent: z.number(),
+  longsPerPercent: z.number().nullable(),  // null — цена сдвинулась меньше порога
+  shortsPerPercent: z.number().nullable(),
+  deltaRatio: z.number().nullable(),       // >1 — больше ликвидаций лонгов на то же движение
+});
+
+export const liquidationDeltaSchema = liquidationDeltaPointSchema.extend({
+  symbol: z.string(),
+  window: z.enum(DELTA_WINDOWS),
+  lastPrice: z.number(),
+  startPrice: z.number(),
+  longs: z.number(),  // $ за окно
+  shorts: z.number(),
+});
+
+export type LiquidationDeltaPoint = z.infer<typeof liquidationDeltaPointSchema>;
+export type LiquidationDelta = z.infer<typeof liquidationDeltaSchema>;
+
+// Символ фьючерса в путях запросов (BTCUSDT, 1000PEPEUSDT): дальше он уходит в URL к бирже
+export const SYMBOL_PATTERN = /^[A-Z0-9]{2,20}$/;
+export const symbolParamSchema = z.string().trim().toUpperCase().regex(SYMBOL_PATTERN, 'Invalid symbol');
+
+// 🔎 Параметры GET /api/liquidations (query-строка, поэтому все приходит строками)
+const listParam = z.union([z.string(), z.array(z.string())])
+  .transform(value => (Array.isArray(value) ? value : [value])
+    .flatMap(item => item.split(','))
+    .map(item => item.trim())
+    .filter(Boolean));
+
+// Время: миллисекунды epoch или любая дата, которую понимает Date.parse (ISO 8601)
+const timeParam = z.string().transform((value, ctx) => {
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (isNaN(time)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid time: ${value}` });
+    return z.NEVER;
+  }
+  return time;
+});
+
+// Фильтр истории — общий для страниц и выгрузки
+const liquidationFilterParams = z.object({
+  symbol: listParam.optional(),
+  symbols: listParam.optional(),
+  exchange: listParam.optional(),
+  side: z.enum(['long', 'short']).optional(),
+  minValue: z.coerce.number().nonnegative().optional(),
+  maxValue: z.coerce.number().nonnegative().optional(),
+  from: timeParam.optional(),
+  to: timeParam.optional(),
+});
+
+type LiquidationFilterParams = z.infer<typeof liquidationFilterParams>;
+
+function checkLiquidationFilter(q: LiquidationFilterParams, ctx: z.RefinementCtx) {
+  if (q.from !== undefined && q.to !== undefined && q.from > q.to) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'from must be before to', path: ['from'] });
+  }
+  if (q.minValue !== undefined && q.maxValue !== undefined && q.minValue > q.maxValue) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'minValue must not exceed maxValue', path: ['minValue'] });
+  }
+}
+
+// symbol и symbols складываются, регистр приводится к хранимому
+function normalizeLiquidationFilter<T extends LiquidationFilterParams>({ symbol, symbols, exchange, ...query }: T) {
+  const allSymbols = [...(symbol ?? []), ...(symbols ?? [])].map(s => s.toUpperCase());
+  return {
+    ...query,
+    symbols: allSymbols.length > 0 ? allSymbols : undefined,
+    exchanges: exchange?.map(e => e.toLowerCase()),
+  };
+}
+
+export const liquidationQuerySchema = liquidationFilterParams
+  .extend({
+    cursor: z.string().optional(),
+    limit: z.coerce.number().int().min(1).max(1000).default(100),
+  })
+  .superRefine(checkLiquidationFilter)
+  .transform(normalizeLiquidationFilter);
+
+export type LiquidationQuery = z.infer<typeof liquidationQuerySchema>;
+
+// 📤 Выгрузка истории: GET /api/liquidations/export
+export const EXPORT_FORMATS = ['csv', 'ndjson', 'parquet'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// time — дата в запрошенном часовом поясе (ISO 8601 со смещением), timestamp — мс epoch
+export const EXPORT_COLUMNS = [
+  'id', 'timestamp', 'time', 'symbol', 'exchange', 'side', 'size', 'price', 'value',
+  'openInterest', 'openInterestValue', 'fundingRate',
+] as const;
+export type ExportColumn = typeof EXPORT_COLUMNS[number];
+
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = ['time', 'symbol', 'exchange', 'side', 'size', 'price', 'value'];
+export const MAX_EXPORT_ROWS = 1_000_000;
+
+function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const liquidationExportQuerySchema = liquidationFilterParams
+  .extend({
+    format: z.enum(EXPORT_FORMATS).default('csv'),
+    columns: listParam
+      .pipe(z.array(z.enum(EXPORT_COLUMNS)).min(1, 'columns must not be empty'))
+      .default(DEFAULT_EXPORT_COLUMNS),
+    timezone: z.string().refine(isTimeZone, value => ({ message: `Unknown timezone: ${value}` })).default('UTC'),
+    limit: z.coerce.number().int().min(1).max(MAX_EXPORT_ROWS).default(MAX_EXPORT_ROWS),
+  })
+  .superRefine(checkLiquidationFilter)
+  .transform(normalizeLiquidationFilter);
+
+export type LiquidationExportQuery = z.infer<typeof liquidationExportQuerySchema>;
+
+// 🕯️ Свечи ликвидаций: суммы по символу за интервал времени
+export const BAR_INTERVALS = ['1m', '5m', '15m', '1h', '4h', '1d'] as const;
+export type BarInterval = typeof BAR_INTERVALS[number];
+
+// Псевдо-символ для агрегатов по всему рынку
+export const MARKET_SYMBOL = 'ALL';
+
+export const liquidationBarSchema = z.object({
+  symbol: z.string(),
+  interval: z.enum(BAR_INTERVALS),
+  openTime: z.number(),
+  longValue: z.number(),
+  shortValue: z.number(),
+  longCount: z.number(),
+  shortCount: z.number(),
+  maxValue: z.number(), // Крупнейшая одиночная ликвидация в свече
+});
+
+export type LiquidationBar = z.infer<typeof liquidationBarSchema>;
+
+export const liquidationBarsQuerySchema = z.object({
+  symbol: z.string().transform(s => s.toUpperCase()).default(MARKET_SYMBOL),
+  interval: z.enum(BAR_INTERVALS).default('1m'),
+  from: timeParam.optional(),
+  to: timeParam.optional(),
+  limit: z.coerce.number().int().min(1).max(1500).default(200),
+});
+
+export type LiquidationBarsQuery = z.infer<typeof liquidationBarsQuerySchema>;
+
+// ⚡ Каскад: серия ликвидаций по символу в одну сторону за короткое время
+export const CASCADE_STATUSES = ['active', 'ended'] as const;
+
+export const cascadeSchema = z.object({
+  id: z.string(),
+  symbol: z.string(),
+  status: z.enum(CASCADE_STATUSES),
+  side: z.enum(['long', 'short']), // Доминирующая сторона по сумме
+  startTime: z.number(),
+  endTime: z.number(),             // Время последней ликвидации каскада
+  totalValue: z.number(),
+  longValue: z.number(),
+  shortValue: z.number(),
+  count: z.number(),
+  minPrice: z.number(),
+  maxPrice: z.number(),
+});
+
+export type Cascade = z.infer<typeof cascadeSchema>;
+
+export const cascadeQuerySchema = z.object({
+  symbol: z.string().transform(s => s.toUpperCase()).optional(),
+  from: timeParam.optional(),
+  to: timeParam.optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+export type CascadeQuery = z.infer<typeof cascadeQuerySchema>;
+
+// 🔥 Параметры GET /api/market/delta/:symbol
+export const liquidationDeltaQuerySchema = z.object({
+  window: z.enum(DELTA_WINDOWS).default('1h'),
+  hours: z.coerce.number().min(1).max(24).default(24), // Глубина истории
+});
+
+// 💰 Параметры GET /api/prices (без symbols — все известные)
+export const priceQuerySchema = z.object({
+  symbols: listParam.transform(list => list.map(s => s.toUpperCase())).optional(),
+});
+
+// ⏯️ Воспроизведение записанной сессии (LIQUIDATION_MODE=replay)
+export const REPLAY_SPEEDS = [1, 5, 20] as const;
+export type ReplaySpeed = typeof REPLAY_SPEEDS[number];
+
+export const replayStateSchema = z.object({
+  file: z.string(),
+  status: z.enum(['playing', 'paused', 'ended']),
+  speed: z.number().refine((value): value is ReplaySpeed => REPLAY_SPEEDS.includes(value as ReplaySpeed), {
+    message: `Speed must be one of ${REPLAY_SPEEDS.join(', ')}`,
+  }),
+  position: z.number(),  // мс от начала записи
+  duration: z.number(),
+  startTime: z.number(), // Когда началась запись — position отсчитывается от него
+});
+
+export type ReplayState = z.infer<typeof replayStateSchema>;
+
+// Тело POST /api/replay: любое сочетание полей
+export const replayControlSchema = z.object({
+  playing: z.boolean().optional(),
+  speed: replayStateSchema.shape.speed.optional(),
+  position: z.number().min(0).optional(),
+});
+
+export type ReplayControl = z.infer<typeof replayControlSchema>;
+
+// 🔔 Правила алертов: условие + вебхук, куда доставлять срабатывания
+const sideList = z.array(z.enum(['long', 'short'])).min(1);
+const upperSymbols = z.array(z.string().min(1).transform(s => s.toUpperCase())).min(1);
+
+export const alertConditionSchema = z.discriminatedUnion('type', [
+  // Одиночная ликвидация крупнее minValue
+  z.object({
+    type: z.literal('single_liquidation'),
+    minValue: z.number().positive(),
+    symbols: upperSymbols.optional(),
+    sides: sideList.optional(),
+    exchanges: z.array(z.string().min(1).transform(s => s.toLowerCase())).min(1).optional(),
+  }),
+  // Сумма ликвидаций по символу (или по рынку) за скользящее окно
+  z.object({
+    type: z.literal('window_sum'),
+    minValue: z.number().positive(),
+    windowSeconds: z.number().int().min(1).max(24 * 60 * 60),
+    symbol: z.string().min(1).transform(s => s.toUpperCase()).optional(),
+    side: z.enum(['long', 'short']).optional(),
+  }),
+  // priceMovementDelta.deltaRatio пересекает порог
+  z.object({
+    type: z.literal('delta_ratio'),
+    threshold: z.number().positive().max(DELTA_RATIO_CAP), // выше потолка ratio не бывает
+    direction: z.enum(['above', 'below']).default('above'),
+  }),
+]);
+
+export type AlertCondition = z.infer<typeof alertConditionSchema>;
+
+export const insertAlertRuleSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  enabled: z.boolean().default(true),
+  webhookUrl: z.string().url().refine(url => /^https?:\/\//.test(url), 'webhookUrl must be http(s)'),
+  cooldownSeconds: z.number().int().min(0).max(24 * 60 * 60).default(60), // Не чаще раза в N секунд
+  condition: alertConditionSchema,
+});
+
+export const updateAlertRuleSchema = insertAlertRuleSchema.partial()
+  .refine(patch => Object.keys(patch).length > 0, { message: 'Nothing to update' });
+
+export type InsertAlertRule = z.infer<typeof insertAlertRuleSchema>;
+export type UpdateAlertRule = z.infer<typeof updateAlertRuleSchema>;
+export type AlertRule = InsertAlertRule & { id: string; createdAt: number };
+
+// Тело запроса на вебхук
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  type: AlertCondition['type'] | 'test';
+  triggeredAt: number;
+  message: string;
+  data: Record<string, unknown>;
+}
+
+// 💾 Таблицы PostgreSQL (drizzle-kit push берет схему из этого файла)
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+});
+
+export const insertUserSchema = createInsertSchema(users).pick({
+  username: true,
+  password: true,
+});
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+// Пароль наружу не отдается
+export type PublicUser = Omit<User, 'password'>;
+
+// 🔐 Регистрация и вход: POST /api/auth/register, /api/auth/login
+export const registerUserSchema = insertUserSchema.extend({
+  username: z.string().trim()
+    .min(3, 'Username must be at least 3 characters')
+    .max(32, 'Username must be at most 32 characters')
+    .regex(/^[A-Za-z0-9_.-]+$/, 'Username may contain only letters, digits, "_", "." and "-"'),
+  password: z.string()
+    .min(8, 'Password must be at least 8 characters')
+    .max(128, 'Password must be at most 128 characters'),
+});
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1, 'Username is required'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+export type RegisterUser = z.infer<typeof registerUserSchema>;
+export type LoginCredentials = z.infer<typeof loginSchema>;
+
+// Сессии входа (connect-pg-simple): таблица описана здесь, чтобы drizzle-kit push ее не удалял
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("IDX_session_expire").on(table.expire),
+]);
+
+// История ликвидаций: строка = нормализованный Liquidation
+export const liquidations = pgTable("liquidations", {
+  id: text("id").primaryKey(),
+  timestamp: bigint("timestamp", { mode: "number" }).notNull(),
+  symbol: text("symbol").notNull(),
+  exchange: text("exchange").notNull(),
+  side: text("side", { enum: ['buy', 'sell', 'long', 'short'] }).notNull(),
+  size: doublePrecision("size").notNull(),
+  price: doublePrecision("price").notNull(),
+  value: doublePrecision("value").notNull(),
+  context: jsonb("context").$type<MarketContext>(),
+}, (table) => [
+  index("liquidations_timestamp_idx").on(table.timestamp),
+  index("liquidations_symbol_timestamp_idx").on(table.symbol, table.timestamp),
+]);
+
+export const cascades = pgTable("cascades", {
+  id: text("id").primaryKey(),
+  symbol: text("symbol").notNull(),
+  status: text("status", { enum: CASCADE_STATUSES }).notNull(),
+  side: text("side", { enum: ['long', 'short'] }).notNull(),
+  startTime: bigint("start_time", { mode: "number" }).notNull(),
+  endTime: bigint("end_time", { mode: "number" }).notNull(),
+  totalValue: doublePrecision("total_value").notNull(),
+  longValue: doublePrecision("long_value").notNull(),
+  shortValue: doublePrecision("short_value").notNull(),
+  count: integer("count").notNull(),
+  minPrice: doublePrecision("min_price").notNull(),
+  maxPrice: doublePrecision("max_price").notNull(),
+}, (table) => [
+  index("cascades_start_time_idx").on(table.startTime),
+  index("cascades_symbol_start_time_idx").on(table.symbol, table.startTime),
+]);
+
+export const alertRules = pgTable("alert_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  webhookUrl: text("webhook_url").notNull(),
+  cooldownSeconds: integer("cooldown_seconds").notNull().default(60),
+  condition: jsonb("condition").$type<AlertCondition>().notNull(),
+  createdAt: bigint("created_at", { mode: "number" }).notNull(),
+});
 
 export interface LiquidationBlock {
   id: string;
@@ -0,0 +1,110 @@
+import { z } from "zod";
+import { BAR_INTERVALS, KLINE_INTERVALS, liquidationSchema, symbolParamSchema, type Cascade, type Kline, type KlineInterval, type Liquidation, type LiquidationBar, type MarketStats, type ReplayState, type SymbolPrice, type SymbolStats } from "./schema";
+
+// Протокол /ws: клиент сообщает, какие ликвидации ему нужны, сервер шлет только подходящие
+
+const upperList = z.array(z.string().trim().min(1).transform(value => value.toUpperCase())).max(200);
+
+// Пустое или отсутствующее поле — без ограничения
+export const liquidationSubscriptionSchema = z.object({
+  symbols: upperList.optional(),
+  exchanges: z.array(z.string().trim().min(1).transform(value => value.toLowerCase())).optional(),
+  sides: z.array(liquidationSchema.shape.side).optional(),
+  minValue: z.number().nonnegative().optional(),
+});
+
+export const clientMessageSchema = z.discriminatedUnion('type', [
+  // Заменяет текущий фильтр целиком; в ответ — subscribed и подходящие recentLiquidations
+  z.object({ type: z.literal('subscribe'), filter: liquidationSubscriptionSchema.default({}) }),
+  // Больше не присылать liquidation (статистика продолжает приходить)
+  z.object({ type: z.literal('unsubscribe') }),
+  // Монета для symbolStats ("" — отписаться)
+  z.object({ type: z.literal('selectSymbol'), symbol: z.string().trim().transform(value => value.toUpperCase()) }),
+  // После переподключения: последний увиденный seq — сервер досылает пропущенное под текущий фильтр.
+  // timestamp нужен, если сервер перезапустился (другой instanceId) и seq из старой нумерации
+  z.object({
+    type: z.literal('resume'),
+    instanceId: z.string(),
+    seq: z.number().int().nonnegative(),
+    timestamp: z.number().nonnegative(),
+  }),
+  // 💰 Символы, цены которых присылать (заменяет прошлый список; [] — не присылать)
+  z.object({ type: z.literal('watchPrices'), symbols: upperList }),
+  // 🕯️ Свечи одного символа/интервала (заменяет прошлые); историю клиент берет из GET /api/klines
+  z.object({
+    type: z.literal('watchKlines'),
+    symbol: symbolParamSchema,
+    interval: z.enum(KLINE_INTERVALS),
+  }),
+  z.object({ type: z.literal('unwatchKlines') }),
+  // 📊 Обновления свечей ликвидаций по символам (ALL — рынок) и интервалам; заменяет прошлое,
+  // пустой intervals — все. Без watchBars liquidationBars не приходят
+  z.object({
+    type: z.literal('watchBars'),
+    symbols: upperList.min(1),
+    intervals: z.array(z.enum(BAR_INTERVALS)).optional(),
+  }),
+  z.object({ type: z.literal('unwatchBars') }),
+]);
+
+export type LiquidationSubscription = z.infer<typeof liquidationSubscriptionSchema>;
+export type ClientMessage = z.input<typeof clientMessageSchema>;
+
+// Первое сообщение соединения: нумерация seq действует в пределах одного instanceId
+export interface FeedHello {
+  instanceId: string;
+  seq: number; // последний выданный seq
+}
+
+export interface FeedResync {
+  liquidations: Liquidation[]; // пропущенные, по возрастанию времени
+  seq: number;                 // все с seq <= этого уже учтены
+  complete: boolean;           // false — пропуск больше, чем удалось восстановить
+}
+
+export interface KlineUpdate {
+  symbol: string;
+  interval: KlineInterval;
+  kline: Kline;
+}
+
+export type ServerMessage =
+  | { type: 'hello'; data: FeedHello }
+  | { type: 'liquidation'; seq: number; data: Liquidation }
+  | { type: 'resync'; data: FeedResync }
+  | { type: 'recentLiquidations'; data: Liquidation[] }
+  | { type: 'marketStats'; data: MarketStats }
+  | { type: 'liquidationBars'; data: LiquidationBar[] }
+  | { type: 'symbolStats'; data: SymbolStats }
+  | { type: 'cascade'; data: Cascade }
+  | { type: 'prices'; data: SymbolPrice[] }
+  | { type: 'kline'; data: KlineUpdate }
+  | { type: 'replay'; data: ReplayState }
+  | { type: 'subscribed'; data: LiquidationSubscription | null }
+  | { type: 'error'; error: string };
+
+export function matchesSubscription(liquidation: Liquidation, filter: LiquidationSubscription): boolean {
+  return (!filter.symbols?.length || filter.symbols.includes(liquidation.symbol)) &&
+    (!filter.exchanges?.length || filter.exchanges.includes(liquidation.exchange)) &&
+    (!filter.sides?.length || filter.sides.includes(liquidation.side)) &&
+    (filter.minValue === undefined || liquidation.value >= filter.minValue);
+}
+
+// Один фильтр, под который подходит все, что нужно каждому из filters (null — этому ничего не нужно;
+// если не нужно никому — {}, поэтому хотя бы один фильтр, например ленты, передавайте всегда).
+// Шире любого из них: каждый потребитель дофильтровывает поток у себя через matchesSubscription
+export function mergeSubscriptions(filters: (LiquidationSubscription | null)[]): LiquidationSubscription {
+  const needed = filters.filter((filter): filter is LiquidationSubscription => filter !== null);
+  if (needed.length === 0) return {};
+
+  const union = <T>(lists: (T[] | undefined)[]): T[] | undefined =>
+    lists.some(list => !list?.length) ? undefined : Array.from(new Set(lists.reduce<T[]>((all, list) => all.concat(list!), [])));
+  const minValues = needed.map(filter => filter.minValue);
+
+  return {
+    symbols: union(needed.map(filter => filter.symbols)),
+    exchanges: union(needed.map(filter => filter.exchanges)),
+    sides: union(needed.map(filter => filter.sides)),
+    minValue: minValues.some(value => value === undefined) ? undefined : Math.min(...(minValues as number[])),
+  };
+}